@@ -0,0 +1,144 @@
+// Reference sync server for Mood Journal. Implements the protocol in server/README.md and keeps
+// everything in a single JSON file. Uses only Node built-ins: `node server/sync-server.js`.
+import { createServer } from 'node:http';
+import { readFileSync, writeFileSync, renameSync, existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || '127.0.0.1';
+const DATA_FILE = resolve(process.env.SYNC_DATA_FILE || 'sync-data.json');
+const TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY_SIZE = 20 * 1024 * 1024;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// { revision: number, records: { [date]: { date, updatedAt, rev, entry? , deleted? } } }
+const loadData = () => {
+  if (!existsSync(DATA_FILE)) return { revision: 0, records: {} };
+  return JSON.parse(readFileSync(DATA_FILE, 'utf8'));
+};
+
+// Write to a temporary file first so a crash never leaves a half-written journal behind
+const saveData = (data) => {
+  const temporary = `${DATA_FILE}.tmp`;
+  writeFileSync(temporary, JSON.stringify(data));
+  renameSync(temporary, DATA_FILE);
+};
+
+let data = loadData();
+
+const isValidChange = (change) =>
+  !!change &&
+  typeof change.date === 'string' &&
+  DATE_PATTERN.test(change.date) &&
+  typeof change.updatedAt === 'number' &&
+  (change.deleted === true
+    ? change.entry === undefined
+    : !!change.entry && typeof change.entry === 'object' && change.entry.date === change.date);
+
+// Last writer wins per date. Returns the dates whose change was refused because the server copy is newer.
+const applyChanges = (changes) => {
+  const refused = [];
+  changes.forEach((change) => {
+    const current = data.records[change.date];
+    if (current && current.updatedAt >= change.updatedAt) {
+      refused.push(change.date);
+      return;
+    }
+
+    data.revision += 1;
+    data.records[change.date] = change.deleted
+      ? { date: change.date, updatedAt: change.updatedAt, rev: data.revision, deleted: true }
+      : { date: change.date, updatedAt: change.updatedAt, rev: data.revision, entry: change.entry };
+  });
+  return refused;
+};
+
+const changesSince = (since, refused = []) => {
+  const refusedDates = new Set(refused);
+  return Object.values(data.records).filter((record) => record.rev > since || refusedDates.has(record.date));
+};
+
+const send = (response, status, body) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (request) =>
+  new Promise((resolveBody, reject) => {
+    let size = 0;
+    const chunks = [];
+    request.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(Object.assign(new Error('Request body is too large.'), { status: 413 }));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+
+const handleSync = async (request, response, url) => {
+  if (request.method === 'GET') {
+    const since = Number(url.searchParams.get('since')) || 0;
+    send(response, 200, { revision: data.revision, changes: changesSince(since) });
+    return;
+  }
+
+  let body;
+  try {
+    body = JSON.parse(await readBody(request));
+  } catch (error) {
+    send(response, error.status || 400, { error: error.status ? error.message : 'Body is not valid JSON.' });
+    return;
+  }
+
+  const since = Number(body?.since) || 0;
+  const changes = Array.isArray(body?.changes) ? body.changes : null;
+  if (!changes || !changes.every(isValidChange)) {
+    send(response, 400, { error: 'Expected { since, changes: [{ date, updatedAt, entry | deleted }] }.' });
+    return;
+  }
+
+  const previousRevision = data.revision;
+  const refused = applyChanges(changes);
+  if (data.revision !== previousRevision) saveData(data);
+
+  send(response, 200, { revision: data.revision, changes: changesSince(since, refused) });
+};
+
+const server = createServer(async (request, response) => {
+  // The app is usually served from another origin (GitHub Pages, the Vite dev server)
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (request.method === 'OPTIONS') {
+    send(response, 204);
+    return;
+  }
+
+  const url = new URL(request.url, `http://${request.headers.host}`);
+  if (url.pathname !== '/sync' || (request.method !== 'GET' && request.method !== 'POST')) {
+    send(response, 404, { error: 'Not found.' });
+    return;
+  }
+  if (TOKEN && request.headers.authorization !== `Bearer ${TOKEN}`) {
+    send(response, 401, { error: 'Missing or wrong access token.' });
+    return;
+  }
+
+  try {
+    await handleSync(request, response, url);
+  } catch (error) {
+    console.error(error);
+    send(response, 500, { error: 'Internal server error.' });
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Mood Journal sync server listening on http://${HOST}:${PORT}`);
+  console.log(`Storing data in ${DATA_FILE}${TOKEN ? ' (access token required)' : ''}`);
+});
@@ -0,0 +1,124 @@
+// Runs sync-server.js on a free port against a temporary data file and checks the protocol in README.md.
+// Every test uses its own dates, since they share one server.
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { startServer } from './test-helpers.js';
+
+const TOKEN = 'secret-token';
+
+let root;
+let server;
+let baseUrl;
+
+before(async () => {
+  root = mkdtempSync(join(tmpdir(), 'sync-server-'));
+  ({ child: server, baseUrl } = await startServer('./sync-server.js', {
+    SYNC_DATA_FILE: join(root, 'sync-data.json'),
+    SYNC_TOKEN: TOKEN,
+  }));
+});
+
+after(() => {
+  server?.kill();
+  rmSync(root, { recursive: true, force: true });
+});
+
+const sync = (body, token = TOKEN) =>
+  fetch(`${baseUrl}/sync`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+const pull = async (since) =>
+  (await fetch(`${baseUrl}/sync?since=${since}`, { headers: { Authorization: `Bearer ${TOKEN}` } })).json();
+
+const edit = (date, diary, updatedAt) => ({ date, updatedAt, entry: { date, mood: 'green', diary, schemaVersion: 6 } });
+
+const recordFor = (changes, date) => changes.find((record) => record.date === date);
+
+test('a newer change replaces the server copy and gets a new revision', async () => {
+  const first = await (await sync({ since: 0, changes: [edit('2024-01-01', 'First', 100)] })).json();
+  const second = await (await sync({ since: first.revision, changes: [edit('2024-01-01', 'Second', 200)] })).json();
+
+  assert.equal(second.revision, first.revision + 1);
+  const record = recordFor(second.changes, '2024-01-01');
+  assert.equal(record.entry.diary, 'Second');
+  assert.equal(record.updatedAt, 200);
+  assert.equal(record.rev, second.revision);
+
+  const stored = JSON.parse(readFileSync(join(root, 'sync-data.json'), 'utf8'));
+  assert.equal(stored.records['2024-01-01'].entry.diary, 'Second');
+});
+
+test('an older or equally old change is refused and the server copy comes back', async () => {
+  const { revision } = await (await sync({ since: 0, changes: [edit('2024-02-01', 'Server', 500)] })).json();
+
+  for (const updatedAt of [400, 500]) {
+    const response = await (await sync({ since: revision, changes: [edit('2024-02-01', 'Stale', updatedAt)] })).json();
+
+    assert.equal(response.revision, revision);
+    const record = recordFor(response.changes, '2024-02-01');
+    assert.equal(record.entry.diary, 'Server');
+    assert.equal(record.updatedAt, 500);
+  }
+});
+
+test('a deletion is kept as a tombstone and reaches other devices', async () => {
+  const created = await (await sync({ since: 0, changes: [edit('2024-03-01', 'Doomed', 100)] })).json();
+  const deleted = await (
+    await sync({ since: created.revision, changes: [{ date: '2024-03-01', updatedAt: 200, deleted: true }] })
+  ).json();
+
+  const tombstone = recordFor((await pull(created.revision)).changes, '2024-03-01');
+  assert.deepEqual(tombstone, { date: '2024-03-01', updatedAt: 200, rev: deleted.revision, deleted: true });
+
+  // An edit from a device that has not seen the deletion loses to it
+  const stale = await (await sync({ since: deleted.revision, changes: [edit('2024-03-01', 'Late', 150)] })).json();
+  assert.equal(recordFor(stale.changes, '2024-03-01').deleted, true);
+});
+
+test('since only returns records changed after that revision', async () => {
+  const older = await (await sync({ since: 0, changes: [edit('2024-04-01', 'Old', 100)] })).json();
+  const newer = await (await sync({ since: older.revision, changes: [edit('2024-04-02', 'New', 100)] })).json();
+
+  assert.deepEqual((await pull(older.revision)).changes.map(({ date }) => date), ['2024-04-02']);
+  assert.deepEqual(newer.changes.map(({ date }) => date), ['2024-04-02']);
+  assert.deepEqual((await pull(newer.revision)).changes, []);
+  assert.ok((await pull(0)).changes.some(({ date }) => date === '2024-04-01'));
+});
+
+test('a malformed request is rejected with 400 and changes nothing', async () => {
+  const { revision } = await pull(0);
+  const invalid = [
+    'not json',
+    { since: 0 },
+    { since: 0, changes: [{ date: '2024-5-1', updatedAt: 1, entry: { date: '2024-5-1' } }] },
+    { since: 0, changes: [{ date: '2024-05-01', updatedAt: '1', entry: { date: '2024-05-01' } }] },
+    { since: 0, changes: [{ date: '2024-05-01', updatedAt: 1, entry: { date: '2024-05-02' } }] },
+    { since: 0, changes: [{ date: '2024-05-01', updatedAt: 1 }] },
+    { since: 0, changes: [{ date: '2024-05-01', updatedAt: 1, deleted: true, entry: { date: '2024-05-01' } }] },
+    { since: 0, changes: [edit('2024-05-03', 'Valid', 1), null] },
+  ];
+
+  for (const body of invalid) {
+    const response = await sync(body);
+    assert.equal(response.status, 400, JSON.stringify(body));
+    assert.equal(typeof (await response.json()).error, 'string');
+  }
+  assert.equal((await pull(0)).revision, revision);
+});
+
+test('a missing or wrong token is rejected with 401', async () => {
+  const { revision } = await pull(0);
+
+  for (const token of [null, 'wrong-token']) {
+    const response = await sync({ since: 0, changes: [edit('2024-06-01', 'Intruder', 100)] }, token);
+    assert.equal(response.status, 401);
+  }
+  assert.equal((await fetch(`${baseUrl}/sync`)).status, 401);
+  assert.equal((await pull(0)).revision, revision);
+});
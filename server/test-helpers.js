@@ -0,0 +1,37 @@
+// Starts one of the servers in this folder as a child process on a free port, for the tests next to it
+import { spawn } from 'node:child_process';
+import { createServer } from 'node:net';
+
+const STARTUP_TIMEOUT = 5000;
+
+const findFreePort = () =>
+  new Promise((resolvePort, reject) => {
+    const probe = createServer();
+    probe.on('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address();
+      probe.close(() => resolvePort(port));
+    });
+  });
+
+// Resolves once the server prints its listening line; the caller kills `child` when done
+export const startServer = async (script, env) => {
+  const port = await findFreePort();
+  const child = await new Promise((resolveStart, reject) => {
+    const started = spawn(process.execPath, [new URL(script, import.meta.url).pathname], {
+      env: { ...process.env, ...env, HOST: '127.0.0.1', PORT: String(port) },
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    const timeoutId = setTimeout(() => {
+      started.kill();
+      reject(new Error(`${script} did not start.`));
+    }, STARTUP_TIMEOUT);
+    started.on('error', reject);
+    started.stdout.on('data', (chunk) => {
+      if (!chunk.toString().includes('listening')) return;
+      clearTimeout(timeoutId);
+      resolveStart(started);
+    });
+  });
+  return { child, baseUrl: `http://127.0.0.1:${port}` };
+};
@@ -0,0 +1,141 @@
+// Runs the app's WebDAV sync (src/webdav.ts) against webdav-standin.js, with one journal file per test and two
+// devices taking turns on it. `npm test` loads the TypeScript through tsx and IndexedDB from fake-indexeddb.
+import 'fake-indexeddb/auto';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { startServer } from './test-helpers.js';
+import { DEFAULT_SETTINGS } from '../src/types.ts';
+import {
+  connectWebDav,
+  fetchRemoteJournal,
+  compareWithRemote,
+  acceptRemoteJournal,
+  pushJournal,
+  mergeRemoteChanges,
+} from '../src/webdav.ts';
+
+const USERNAME = 'me';
+const PASSWORD = 'secret';
+
+let root;
+let standin;
+let baseUrl;
+let requests = [];
+
+before(async () => {
+  root = mkdtempSync(join(tmpdir(), 'webdav-client-'));
+  ({ child: standin, baseUrl } = await startServer('./webdav-standin.js', {
+    WEBDAV_ROOT: root,
+    WEBDAV_USER: USERNAME,
+    WEBDAV_PASSWORD: PASSWORD,
+  }));
+
+  // Records what the app sends, to check the preconditions it asks for
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = (url, init = {}) => {
+    requests.push({ method: init.method, headers: { ...init.headers } });
+    return realFetch(url, init);
+  };
+});
+
+after(() => {
+  standin?.kill();
+  rmSync(root, { recursive: true, force: true });
+});
+
+const entry = (date, diary, updatedAt) => ({ date, mood: 'green', diary, updatedAt });
+
+// A device that pulls and applies what changed, the way the sync hook does before pushing
+const pull = async (state, entries) => {
+  const remote = await fetchRemoteJournal(state);
+  const changes = compareWithRemote(state, entries, remote);
+  return {
+    changes,
+    state: acceptRemoteJournal(state, remote),
+    entries: mergeRemoteChanges(entries, changes.incoming, changes.removed),
+  };
+};
+
+// Both devices start from the same journal on the server
+const connectTwoDevices = async (folder, entries) => {
+  const mine = await connectWebDav(`${baseUrl}/${folder}/`, USERNAME, PASSWORD);
+  const pushed = await pushJournal(mine, entries, DEFAULT_SETTINGS);
+  const theirs = await pull(await connectWebDav(`${baseUrl}/${folder}/`, USERNAME, PASSWORD), []);
+  return { mine: pushed, theirs: theirs.state, theirEntries: theirs.entries };
+};
+
+test('the first push creates the file with If-None-Match: *', async () => {
+  const state = await connectWebDav(`${baseUrl}/first-push/`, USERNAME, PASSWORD);
+  requests = [];
+  const pushed = await pushJournal(state, [entry('2026-01-01', 'Hello', 100)], DEFAULT_SETTINGS);
+
+  const put = requests.find(({ method }) => method === 'PUT');
+  assert.equal(put.headers['If-None-Match'], '*');
+  assert.equal(put.headers['If-Match'], undefined);
+
+  const remote = await fetchRemoteJournal(pushed);
+  assert.equal(pushed.etag, remote.etag);
+  assert.deepEqual(remote.entries.map(({ diary }) => diary), ['Hello']);
+});
+
+test('a push based on an ETag another device has replaced returns null and writes nothing', async () => {
+  const base = [entry('2026-01-01', 'Base', 100)];
+  const { mine, theirs, theirEntries } = await connectTwoDevices('stale-push', base);
+
+  const theirEdit = [...theirEntries, entry('2026-01-02', 'Theirs', 200)];
+  assert.ok(await pushJournal(theirs, theirEdit, DEFAULT_SETTINGS));
+
+  requests = [];
+  const result = await pushJournal(mine, [...base, entry('2026-01-03', 'Mine', 300)], DEFAULT_SETTINGS);
+  assert.equal(result, null);
+  assert.equal(requests.find(({ method }) => method === 'PUT').headers['If-Match'], mine.etag);
+
+  const remote = await fetchRemoteJournal(mine);
+  assert.deepEqual(remote.entries.map(({ diary }) => diary).sort(), ['Base', 'Theirs']);
+});
+
+test('a date edited on both devices comes back as a conflict, other remote edits as incoming', async () => {
+  const base = [entry('2026-01-01', 'Base', 100), entry('2026-01-02', 'Untouched', 100)];
+  const { mine, theirs, theirEntries } = await connectTwoDevices('conflict', base);
+
+  const theirEdit = theirEntries.map((current) =>
+    current.date === '2026-01-01' ? entry('2026-01-01', 'Theirs', 200) : entry('2026-01-02', 'Also theirs', 200)
+  );
+  assert.ok(await pushJournal(theirs, theirEdit, DEFAULT_SETTINGS));
+
+  const myEdit = [entry('2026-01-01', 'Mine', 300), base[1]];
+  const { changes } = await pull(mine, myEdit);
+
+  assert.equal(changes.conflicts.length, 1);
+  assert.equal(changes.conflicts[0].date, '2026-01-01');
+  assert.equal(changes.conflicts[0].current.diary, 'Mine');
+  assert.equal(changes.conflicts[0].incoming.diary, 'Theirs');
+  assert.deepEqual(changes.incoming.map(({ diary }) => diary), ['Also theirs']);
+  assert.deepEqual(changes.removed, []);
+});
+
+test('a date deleted on the other device comes back as removed', async () => {
+  const base = [entry('2026-01-01', 'Kept', 100), entry('2026-01-02', 'Deleted', 100)];
+  const { mine, theirs, theirEntries } = await connectTwoDevices('deletion', base);
+
+  const theirEdit = theirEntries.filter(({ date }) => date !== '2026-01-02');
+  assert.ok(await pushJournal(theirs, theirEdit, DEFAULT_SETTINGS));
+
+  const { changes, entries } = await pull(mine, base);
+  assert.deepEqual(changes.removed, ['2026-01-02']);
+  assert.deepEqual(changes.conflicts, []);
+  assert.deepEqual(entries.map(({ date }) => date), ['2026-01-01']);
+});
+
+test('wrong credentials are rejected with a message about them', async () => {
+  const expected = { message: 'The WebDAV server rejected the username or password.' };
+  await assert.rejects(connectWebDav(`${baseUrl}/auth/`, USERNAME, 'wrong'), expected);
+
+  const state = await connectWebDav(`${baseUrl}/auth/`, USERNAME, PASSWORD);
+  const withWrongPassword = { ...state, password: 'wrong' };
+  await assert.rejects(fetchRemoteJournal(withWrongPassword), expected);
+  await assert.rejects(pushJournal(withWrongPassword, [entry('2026-01-01', 'x', 1)], DEFAULT_SETTINGS), expected);
+});
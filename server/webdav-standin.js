@@ -0,0 +1,113 @@
+// Minimal WebDAV stand-in for trying WebDAV sync locally without Nextcloud. It serves the files in one folder
+// with the subset the app uses: GET, HEAD and PUT with ETags and If-Match / If-None-Match preconditions.
+// `node server/webdav-standin.js`, then connect the app to http://localhost:8788/.
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync, renameSync, existsSync, mkdirSync } from 'node:fs';
+import { resolve, join, sep } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8788;
+const HOST = process.env.HOST || '127.0.0.1';
+const ROOT = resolve(process.env.WEBDAV_ROOT || 'webdav-data');
+const USERNAME = process.env.WEBDAV_USER || '';
+const PASSWORD = process.env.WEBDAV_PASSWORD || '';
+const MAX_BODY_SIZE = 20 * 1024 * 1024;
+
+const etagOf = (content) => `"${createHash('sha1').update(content).digest('hex')}"`;
+
+// Keeps requests inside ROOT, whatever the path contains
+const toFilePath = (pathname) => {
+  const filePath = resolve(join(ROOT, decodeURIComponent(pathname)));
+  return filePath.startsWith(ROOT + sep) ? filePath : null;
+};
+
+const isAuthorized = (request) => {
+  if (!USERNAME) return true;
+  const expected = `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString('base64')}`;
+  return request.headers.authorization === expected;
+};
+
+const readBody = (request) =>
+  new Promise((resolveBody, reject) => {
+    let size = 0;
+    const chunks = [];
+    request.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(new Error('Request body is too large.'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolveBody(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+
+const server = createServer(async (request, response) => {
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, PUT, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, If-Match, If-None-Match');
+  response.setHeader('Access-Control-Expose-Headers', 'ETag');
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204).end();
+    return;
+  }
+  if (!isAuthorized(request)) {
+    response.writeHead(401, { 'WWW-Authenticate': 'Basic realm="webdav"' }).end();
+    return;
+  }
+
+  const filePath = toFilePath(new URL(request.url, `http://${request.headers.host}`).pathname);
+  if (!filePath) {
+    response.writeHead(403).end();
+    return;
+  }
+
+  const readCurrent = () => (existsSync(filePath) ? readFileSync(filePath) : null);
+
+  if (request.method === 'GET' || request.method === 'HEAD') {
+    const current = readCurrent();
+    if (!current) {
+      response.writeHead(404).end();
+      return;
+    }
+    response.writeHead(200, { 'Content-Type': 'application/json', ETag: etagOf(current) });
+    response.end(request.method === 'GET' ? current : undefined);
+    return;
+  }
+
+  if (request.method !== 'PUT') {
+    response.writeHead(405, { Allow: 'GET, HEAD, PUT, OPTIONS' }).end();
+    return;
+  }
+
+  let body;
+  try {
+    body = await readBody(request);
+  } catch {
+    response.writeHead(413).end();
+    return;
+  }
+
+  // Checked after the body is in and with no await before the write, so of two uploads based on the same ETag
+  // only the first succeeds and the other gets 412
+  const current = readCurrent();
+  const ifMatch = request.headers['if-match'];
+  const ifNoneMatch = request.headers['if-none-match'];
+  if ((ifMatch && ifMatch !== (current && etagOf(current))) || (ifNoneMatch === '*' && current)) {
+    response.writeHead(412).end();
+    return;
+  }
+
+  mkdirSync(resolve(filePath, '..'), { recursive: true });
+  writeFileSync(`${filePath}.tmp`, body);
+  renameSync(`${filePath}.tmp`, filePath);
+  response.writeHead(current ? 204 : 201, { ETag: etagOf(body) }).end();
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`WebDAV stand-in listening on http://${HOST}:${PORT}/, serving ${ROOT}`);
+  if (USERNAME) console.log(`Basic auth required for user "${USERNAME}"`);
+});
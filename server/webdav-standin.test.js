@@ -0,0 +1,143 @@
+// Runs webdav-standin.js on a free port against a temporary folder and checks the requests WebDAV sync relies on.
+// `npm test`
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { startServer } from './test-helpers.js';
+
+const USERNAME = 'me';
+const PASSWORD = 'secret';
+const AUTHORIZATION = `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString('base64')}`;
+
+let root;
+let standin;
+let baseUrl;
+
+const request = (path, { headers, ...options } = {}) =>
+  fetch(`${baseUrl}${path}`, { ...options, headers: { Authorization: AUTHORIZATION, ...headers } });
+
+before(async () => {
+  root = mkdtempSync(join(tmpdir(), 'webdav-standin-'));
+  ({ child: standin, baseUrl } = await startServer('./webdav-standin.js', {
+    WEBDAV_ROOT: root,
+    WEBDAV_USER: USERNAME,
+    WEBDAV_PASSWORD: PASSWORD,
+  }));
+});
+
+after(() => {
+  standin?.kill();
+  rmSync(root, { recursive: true, force: true });
+});
+
+test('uploads a new file and returns its ETag', async () => {
+  const response = await request('/upload.json', { method: 'PUT', body: '{"entries":[]}' });
+
+  assert.equal(response.status, 201);
+  assert.match(response.headers.get('etag'), /^"[0-9a-f]{40}"$/);
+  assert.equal(readFileSync(join(root, 'upload.json'), 'utf8'), '{"entries":[]}');
+});
+
+test('downloads a file with the ETag it was uploaded with', async () => {
+  const upload = await request('/download.json', { method: 'PUT', body: '{"version":1}' });
+  const download = await request('/download.json');
+
+  assert.equal(download.status, 200);
+  assert.equal(download.headers.get('etag'), upload.headers.get('etag'));
+  assert.equal(await download.text(), '{"version":1}');
+
+  const head = await request('/download.json', { method: 'HEAD' });
+  assert.equal(head.status, 200);
+  assert.equal(head.headers.get('etag'), upload.headers.get('etag'));
+});
+
+test('answers 404 for a file that does not exist', async () => {
+  const response = await request('/missing.json');
+  assert.equal(response.status, 404);
+});
+
+test('replaces a file when If-Match has the current ETag', async () => {
+  const upload = await request('/replace.json', { method: 'PUT', body: 'first' });
+  const replace = await request('/replace.json', {
+    method: 'PUT',
+    body: 'second',
+    headers: { 'If-Match': upload.headers.get('etag') },
+  });
+
+  assert.equal(replace.status, 204);
+  assert.notEqual(replace.headers.get('etag'), upload.headers.get('etag'));
+  assert.equal(readFileSync(join(root, 'replace.json'), 'utf8'), 'second');
+});
+
+test('rejects an upload with a stale If-Match ETag with 412 and keeps the file', async () => {
+  const first = await request('/conflict.json', { method: 'PUT', body: 'first' });
+  await request('/conflict.json', {
+    method: 'PUT',
+    body: 'second',
+    headers: { 'If-Match': first.headers.get('etag') },
+  });
+
+  const stale = await request('/conflict.json', {
+    method: 'PUT',
+    body: 'third',
+    headers: { 'If-Match': first.headers.get('etag') },
+  });
+
+  assert.equal(stale.status, 412);
+  assert.equal(readFileSync(join(root, 'conflict.json'), 'utf8'), 'second');
+});
+
+test('accepts only one of two concurrent uploads based on the same ETag', async () => {
+  const first = await request('/race.json', { method: 'PUT', body: 'first' });
+
+  // Both bodies stay open until both requests have reached the stand-in
+  const controllers = [];
+  const upload = (body) =>
+    request('/race.json', {
+      method: 'PUT',
+      duplex: 'half',
+      headers: { 'If-Match': first.headers.get('etag') },
+      body: new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(body));
+          controllers.push(controller);
+        },
+      }),
+    });
+
+  const pending = [upload('mine'), upload('theirs')];
+  await new Promise((resolveDelay) => setTimeout(resolveDelay, 200));
+  controllers.forEach((controller) => controller.close());
+  const responses = await Promise.all(pending);
+  const statuses = responses.map(({ status }) => status).sort();
+
+  assert.deepEqual(statuses, [204, 412]);
+  const winner = responses[0].status === 204 ? 'mine' : 'theirs';
+  assert.equal(readFileSync(join(root, 'race.json'), 'utf8'), winner);
+});
+
+test('rejects If-None-Match: * with 412 when the file already exists', async () => {
+  const createOnly = { 'If-None-Match': '*' };
+  const created = await request('/create-only.json', { method: 'PUT', body: 'first', headers: createOnly });
+  const again = await request('/create-only.json', { method: 'PUT', body: 'second', headers: createOnly });
+
+  assert.equal(created.status, 201);
+  assert.equal(again.status, 412);
+  assert.equal(readFileSync(join(root, 'create-only.json'), 'utf8'), 'first');
+});
+
+test('answers 401 with a Basic challenge for a wrong password or no credentials', async () => {
+  const wrong = `Basic ${Buffer.from(`${USERNAME}:wrong`).toString('base64')}`;
+  const rejected = await request('/upload.json', { headers: { Authorization: wrong } });
+  const anonymous = await fetch(`${baseUrl}/upload.json`);
+
+  assert.equal(rejected.status, 401);
+  assert.match(rejected.headers.get('www-authenticate'), /^Basic /);
+  assert.equal(anonymous.status, 401);
+
+  const upload = await request('/unauthorized.json', { method: 'PUT', body: 'x', headers: { Authorization: wrong } });
+  assert.equal(upload.status, 401);
+  assert.equal((await request('/unauthorized.json')).status, 404);
+});
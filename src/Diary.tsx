@@ -1,18 +1,56 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { ChevronLeft, Undo, Redo, Bold, Italic, Underline, Save, Check } from 'lucide-react';
-import { MoodEntry, MoodColor, Settings, MOOD_COLORS } from './types';
-import { formatDate, formatDisplayDate, cleanupTags, getTextWithTags } from './utils';
+import { ChevronLeft, Undo, Redo, Bold, Italic, Underline, Save, Check, History, Plus, Minus, X } from 'lucide-react';
+import {
+  MoodEntry,
+  MoodColor,
+  CheckIn,
+  MetricKey,
+  EntryMetrics,
+  Tracker,
+  Settings,
+  NO_MOOD,
+  METRICS,
+  METRIC_KEYS,
+  CHECK_IN_TIME_PATTERN,
+} from './types';
+import {
+  formatDate,
+  formatDisplayDate,
+  cleanupTags,
+  getTextWithTags,
+  getCurrentTime,
+  sortCheckIns,
+  groupActivitiesByCategory,
+  getMoodColor,
+  getMoodLabel,
+  getMoodOptions,
+  formatMetric,
+  withMetrics,
+  withTrackerValue,
+  hasEntryContent,
+  isSameEntryContent,
+} from './utils';
+import { ActivityChip } from './components';
 import { useHistory } from './hooks';
+import { RevisionHistory } from './RevisionHistory';
+import { EntryDraft, saveDraft, loadDraft, deleteDraft } from './storage';
+
+const DRAFT_SAVE_DELAY = 500;
+
+// Scales with more options than this get smaller circles so they still fit on a phone
+const COMPACT_MOOD_SELECTOR_OPTIONS = 8;
 
 const MoodSelector: React.FC<{
   selectedMood: MoodColor;
   onMoodChange: (mood: MoodColor) => void;
-  customLabels: Record<MoodColor, string>;
-}> = React.memo(({ selectedMood, onMoodChange, customLabels }) => {
+  settings: Settings;
+}> = React.memo(({ selectedMood, onMoodChange, settings }) => {
+  const moods = useMemo(() => getMoodOptions(settings), [settings]);
   const selectedIndex = useMemo(
-    () => MOOD_COLORS.findIndex((color) => color === selectedMood),
-    [selectedMood]
+    () => moods.findIndex((color) => color === selectedMood),
+    [moods, selectedMood]
   );
+  const isCompact = moods.length >= COMPACT_MOOD_SELECTOR_OPTIONS;
 
   const getCircleStyle = useCallback((index: number) => {
     const isSelected = index === selectedIndex;
@@ -33,25 +71,28 @@ const MoodSelector: React.FC<{
       onMoodChange(color);
     } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
       e.preventDefault();
-      const currentIndex = MOOD_COLORS.findIndex((c) => c === selectedMood);
+      const currentIndex = moods.findIndex((c) => c === selectedMood);
       const direction = e.key === 'ArrowLeft' ? -1 : 1;
-      const newIndex = Math.max(0, Math.min(MOOD_COLORS.length - 1, currentIndex + direction));
-      onMoodChange(MOOD_COLORS[newIndex]);
+      const newIndex = Math.max(0, Math.min(moods.length - 1, currentIndex + direction));
+      onMoodChange(moods[newIndex]);
     }
-  }, [selectedMood, onMoodChange]);
+  }, [moods, selectedMood, onMoodChange]);
 
   return (
-    <div className="grid-mood-selector gap-4 sm:gap-5 md:gap-6">
-      {MOOD_COLORS.map((color, index) => (
+    <div
+      className={`grid-mood-selector ${isCompact ? 'mood-selector-compact gap-1 sm:gap-2' : 'gap-4 sm:gap-5 md:gap-6'}`}
+      style={{ gridTemplateColumns: `repeat(${moods.length}, minmax(0, 1fr))` }}
+    >
+      {moods.map((color, index) => (
         <button
           key={color}
           onClick={() => onMoodChange(color)}
           onKeyDown={(e) => handleKeyDown(e, color)}
-          className={`mood-selector-circle mood-selector-${color} ${
+          className={`mood-selector-circle ${
             selectedMood === color ? 'mood-selector-circle-selected' : 'mood-selector-circle-unselected'
           }`}
-          style={getCircleStyle(index)}
-          aria-label={`Select ${customLabels[color]} mood`}
+          style={{ ...getCircleStyle(index), backgroundColor: getMoodColor(color, settings) }}
+          aria-label={`Select ${getMoodLabel(color, settings)} mood`}
           aria-pressed={selectedMood === color}
           tabIndex={selectedMood === color ? 0 : -1}
           type="button"
@@ -61,6 +102,285 @@ const MoodSelector: React.FC<{
   );
 });
 
+const ActivityPicker: React.FC<{
+  selected: string[];
+  onToggle: (id: string) => void;
+  settings: Settings;
+}> = React.memo(({ selected, onToggle, settings }) => {
+  const groups = useMemo(() => groupActivitiesByCategory(settings.activities), [settings.activities]);
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="activity-picker" role="group" aria-label="Activities">
+      {groups.map(([category, activities]) => (
+        <div key={category} className="activity-category">
+          <div className="activity-category-title">{category}</div>
+          <div className="activity-chip-list">
+            {activities.map((activity) => (
+              <ActivityChip
+                key={activity.id}
+                activity={activity}
+                isSelected={selected.includes(activity.id)}
+                onClick={() => onToggle(activity.id)}
+                accentColor={settings.customColors.accent}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+// Follows a drag locally and saves once the slider is let go, so a drag is one save rather than one per step.
+// Metrics are optional, so an untouched slider records nothing until it is moved or clicked.
+const MetricSlider: React.FC<{
+  metricKey: MetricKey;
+  value: number | undefined;
+  onChange: (key: MetricKey, value: number | undefined) => void;
+  settings: Settings;
+}> = ({ metricKey, value, onChange, settings }) => {
+  const metric = METRICS[metricKey];
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = (next: number | undefined) => {
+    if (next !== undefined && next !== value) onChange(metricKey, next);
+  };
+
+  return (
+    <div className="diary-metric-row">
+      <span className="diary-metric-label">{metric.label}</span>
+      <input
+        type="range"
+        min={metric.min}
+        max={metric.max}
+        step={metric.step}
+        value={draft ?? (metric.min + metric.max) / 2}
+        onChange={(e) => setDraft(e.currentTarget.valueAsNumber)}
+        onPointerUp={(e) => commit(e.currentTarget.valueAsNumber)}
+        onKeyUp={() => commit(draft)}
+        onBlur={() => commit(draft)}
+        className={`diary-metric-slider ${draft === undefined ? 'opacity-40' : ''}`}
+        style={{ accentColor: settings.customColors.accent }}
+        aria-label={metric.label}
+      />
+      <span className="diary-metric-value">{draft === undefined ? '—' : formatMetric(metricKey, draft)}</span>
+      <button
+        type="button"
+        onClick={() => onChange(metricKey, undefined)}
+        className={`diary-check-in-remove ${value === undefined ? 'invisible' : ''}`}
+        title={`Clear ${metric.label.toLowerCase()}`}
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+const MetricsPanel: React.FC<{
+  metrics: EntryMetrics;
+  onChange: (key: MetricKey, value: number | undefined) => void;
+  settings: Settings;
+}> = React.memo(({ metrics, onChange, settings }) => (
+  <div className="diary-metrics" style={{ backgroundColor: settings.customColors.base }}>
+    {METRIC_KEYS.map((key) => (
+      <MetricSlider key={key} metricKey={key} value={metrics[key]} onChange={onChange} settings={settings} />
+    ))}
+  </div>
+));
+
+// Keeps what is typed until the field is left, so "7." or an empty field are not saved halfway
+const TrackerNumberInput: React.FC<{
+  tracker: Tracker;
+  value: number | undefined;
+  onChange: (id: string, value: number | undefined) => void;
+}> = ({ tracker, value, onChange }) => {
+  const [text, setText] = useState(value?.toString() ?? '');
+
+  useEffect(() => setText(value?.toString() ?? ''), [value]);
+
+  const commit = () => {
+    const next = text.trim() === '' ? undefined : Number(text);
+    if (next !== undefined && !Number.isFinite(next)) {
+      setText(value?.toString() ?? '');
+    } else if (next !== value) {
+      onChange(tracker.id, next);
+    }
+  };
+
+  return (
+    <input
+      type="number"
+      inputMode="decimal"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className="tracker-number-input"
+      aria-label={tracker.name}
+    />
+  );
+};
+
+// One compact chip per tracker: yes/no toggles, counts step up and down, numbers are typed in
+const TrackerRow: React.FC<{
+  values: Record<string, number>;
+  onChange: (id: string, value: number | undefined) => void;
+  settings: Settings;
+}> = React.memo(({ values, onChange, settings }) => {
+  if (settings.trackers.length === 0) return null;
+
+  return (
+    <div className="tracker-row" role="group" aria-label="Trackers">
+      {settings.trackers.map((tracker) => {
+        const value = values[tracker.id];
+        const isDone = value !== undefined;
+        const label = (
+          <>
+            <span aria-hidden="true">{tracker.emoji}</span>
+            {tracker.name}
+          </>
+        );
+
+        if (tracker.kind === 'boolean') {
+          return (
+            <button
+              key={tracker.id}
+              type="button"
+              onClick={() => onChange(tracker.id, isDone ? undefined : 1)}
+              className={`activity-chip activity-chip-button ${isDone ? 'activity-chip-selected' : ''}`}
+              style={isDone ? { backgroundColor: settings.customColors.accent } : undefined}
+              aria-pressed={isDone}
+            >
+              {label}
+            </button>
+          );
+        }
+
+        return (
+          <span key={tracker.id} className="activity-chip tracker-chip">
+            {label}
+            {tracker.kind === 'count' ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => onChange(tracker.id, value && value > 1 ? value - 1 : undefined)}
+                  className="diary-check-in-remove"
+                  disabled={!isDone}
+                  title={`One ${tracker.name} less`}
+                >
+                  <Minus size={12} />
+                </button>
+                <span className="tabular-nums">{value ?? 0}</span>
+                <button
+                  type="button"
+                  onClick={() => onChange(tracker.id, (value ?? 0) + 1)}
+                  className="diary-check-in-remove"
+                  title={`One ${tracker.name} more`}
+                >
+                  <Plus size={12} />
+                </button>
+              </>
+            ) : (
+              <>
+                <TrackerNumberInput tracker={tracker} value={value} onChange={onChange} />
+                {tracker.unit}
+              </>
+            )}
+          </span>
+        );
+      })}
+    </div>
+  );
+});
+
+// Check-ins are timed moods logged during the day. They are saved as soon as they are added or removed.
+const CheckInPanel: React.FC<{
+  checkIns: CheckIn[];
+  onAdd: (checkIn: CheckIn) => void;
+  onRemove: (index: number) => void;
+  settings: Settings;
+}> = React.memo(({ checkIns, onAdd, onRemove, settings }) => {
+  const [time, setTime] = useState(getCurrentTime);
+  const [mood, setMood] = useState<MoodColor>(NO_MOOD);
+  const [note, setNote] = useState('');
+
+  const handleAdd = useCallback(() => {
+    if (!CHECK_IN_TIME_PATTERN.test(time)) return;
+    onAdd({ time, mood, diary: note.trim() });
+    setTime(getCurrentTime());
+    setMood(NO_MOOD);
+    setNote('');
+  }, [time, mood, note, onAdd]);
+
+  return (
+    <div className="diary-check-ins" style={{ backgroundColor: settings.customColors.base }}>
+      <h3 className="diary-mood-title">Check-ins</h3>
+
+      {checkIns.length > 0 && (
+        <ul className="diary-check-in-list">
+          {checkIns.map((checkIn, index) => (
+            <li key={`${checkIn.time}-${index}`} className="check-in-item">
+              <span
+                className="import-mood-dot mt-1"
+                style={{ backgroundColor: getMoodColor(checkIn.mood, settings) }}
+                aria-label={`Mood: ${getMoodLabel(checkIn.mood, settings)}`}
+              />
+              <span className="check-in-time">{checkIn.time}</span>
+              <span className="check-in-text flex-1">{checkIn.diary}</span>
+              <button
+                type="button"
+                onClick={() => onRemove(index)}
+                className="diary-check-in-remove"
+                title={`Remove the ${checkIn.time} check-in`}
+              >
+                <X size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="diary-check-in-form">
+        <input
+          type="time"
+          value={time}
+          onChange={(e) => setTime(e.target.value)}
+          className="diary-check-in-input w-24"
+          aria-label="Check-in time"
+        />
+        <div className="flex gap-1" role="group" aria-label="Check-in mood">
+          {getMoodOptions(settings).map((color) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => setMood(color)}
+              className={`diary-check-in-mood ${mood === color ? 'diary-check-in-mood-selected' : ''}`}
+              style={{ backgroundColor: getMoodColor(color, settings) }}
+              title={getMoodLabel(color, settings)}
+              aria-pressed={mood === color}
+            />
+          ))}
+        </div>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          className="diary-check-in-input flex-1 min-w-[8rem]"
+          placeholder="What's going on?"
+          aria-label="Check-in note"
+        />
+        <button type="button" onClick={handleAdd} className="diary-action-button" title="Add check-in">
+          <Plus size={18} />
+        </button>
+      </div>
+    </div>
+  );
+});
+
 export const Diary: React.FC<{
   isOpen: boolean;
   onClose: () => void;
@@ -68,32 +388,157 @@ export const Diary: React.FC<{
   entry?: MoodEntry;
   onSave: (entry: MoodEntry) => void;
   settings: Settings;
-}> = ({ isOpen, onClose, date, entry, onSave, settings }) => {
-  const [mood, setMood] = useState<MoodColor>('grey');
+  showStatusMessage: (message: string, type?: 'success' | 'error') => void;
+}> = ({ isOpen, onClose, date, entry, onSave, settings, showStatusMessage }) => {
+  const [mood, setMood] = useState<MoodColor>(NO_MOOD);
   const [diary, setDiary] = useState('');
   const contentEditableRef = useRef<HTMLDivElement>(null);
   const [activeFormats, setActiveFormats] = useState({ bold: false, italic: false, underline: false });
   const savedSelectionRef = useRef<Range | null>(null);
   const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   const { addToHistory, undo, redo, canUndo, canRedo } = useHistory<{
     diary: string;
     mood: MoodColor;
-  }>({ diary: '', mood: 'grey' });
+  }>({ diary: '', mood: NO_MOOD });
 
   const formattedDate = useMemo(() => formatDisplayDate(date), [date]);
 
+  // What the editor last loaded or saved; edits beyond it are unsaved and must survive changes from other tabs
+  const baselineRef = useRef({ mood: NO_MOOD, diary: '' });
+  const currentRef = useRef({ mood, diary });
+  currentRef.current = { mood, diary };
+  const loadedDateRef = useRef<string | null>(null);
+  const [remoteChange, setRemoteChange] = useState<{ mood: MoodColor; diary: string } | null>(null);
+  const [editorDate, setEditorDate] = useState<string | null>(null);
+
   useEffect(() => {
-    if (entry) {
-      setMood(entry.mood || 'grey');
-      const cleanedDiary = cleanupTags(entry.diary || '');
-      setDiary(cleanedDiary);
-    } else {
-      setMood('grey');
-      setDiary('');
+    const incoming = { mood: entry?.mood || NO_MOOD, diary: cleanupTags(entry?.diary || '') };
+    const dateKey = formatDate(date);
+    const isSameDate = loadedDateRef.current === dateKey;
+    loadedDateRef.current = dateKey;
+
+    const current = currentRef.current;
+    const baseline = baselineRef.current;
+    // Saving a check-in changes the entry without touching what the editor shows
+    if (isSameDate && incoming.mood === baseline.mood && incoming.diary === baseline.diary) return;
+    const hasUnsavedEdits = current.mood !== baseline.mood || current.diary !== baseline.diary;
+    const matchesEditor = incoming.mood === current.mood && incoming.diary === current.diary;
+
+    if (isSameDate && hasUnsavedEdits && !matchesEditor) {
+      setRemoteChange(incoming);
+      return;
     }
+
+    baselineRef.current = incoming;
+    setRemoteChange(null);
+    setMood(incoming.mood);
+    setDiary(incoming.diary);
+    setEditorDate(dateKey);
   }, [entry, date]);
 
+  const loadRemoteChange = useCallback(() => {
+    if (!remoteChange) return;
+    baselineRef.current = remoteChange;
+    setMood(remoteChange.mood);
+    setDiary(remoteChange.diary);
+    setRemoteChange(null);
+  }, [remoteChange]);
+
+  const keepLocalChanges = useCallback(() => {
+    if (!remoteChange) return;
+    baselineRef.current = remoteChange;
+    setRemoteChange(null);
+  }, [remoteChange]);
+
+  // Unsaved edits are kept as a draft for the date until they are saved or match the entry again
+  const dateKey = formatDate(date);
+  const entryRef = useRef(entry);
+  entryRef.current = entry;
+  const pendingDraftRef = useRef<EntryDraft | null>(null);
+  const hasStoredDraftRef = useRef(false);
+  const draftTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const [recoveredDraft, setRecoveredDraft] = useState<EntryDraft | null>(null);
+
+  const flushDraft = useCallback(() => {
+    clearTimeout(draftTimeoutRef.current);
+    const draft = pendingDraftRef.current;
+    pendingDraftRef.current = null;
+    if (draft) {
+      saveDraft(draft).catch(() =>
+        showStatusMessage('Could not keep a draft of this entry. Save it to keep your edits.', 'error')
+      );
+    }
+  }, [showStatusMessage]);
+
+  const discardDraft = useCallback((draftDate: string) => {
+    clearTimeout(draftTimeoutRef.current);
+    pendingDraftRef.current = null;
+    setRecoveredDraft(null);
+    if (!hasStoredDraftRef.current) return;
+    hasStoredDraftRef.current = false;
+    deleteDraft(draftDate).catch(() => showStatusMessage('Could not remove the old draft of this entry.', 'error'));
+  }, [showStatusMessage]);
+
+  // A draft only counts as recovered when it is newer than the saved entry and says something different
+  useEffect(() => {
+    if (!isOpen) return;
+    let isCancelled = false;
+    loadDraft(dateKey)
+      .then((draft) => {
+        if (isCancelled || !draft) return;
+        const saved = entryRef.current;
+        const isNewer = draft.savedAt > (saved?.updatedAt ?? 0);
+        const differs = draft.mood !== (saved?.mood || NO_MOOD) || draft.diary !== cleanupTags(saved?.diary || '');
+        hasStoredDraftRef.current = true;
+        if (isNewer && differs) setRecoveredDraft(draft);
+        else discardDraft(dateKey);
+      })
+      .catch(() => showStatusMessage('Could not check for an unsaved draft of this entry.', 'error'));
+    return () => {
+      isCancelled = true;
+      setRecoveredDraft(null);
+    };
+  }, [isOpen, dateKey, discardDraft, showStatusMessage]);
+
+  useEffect(() => {
+    // Right after a date change the editor still shows the previous date until the new entry is loaded
+    if (!isOpen || recoveredDraft || editorDate !== dateKey) return;
+    clearTimeout(draftTimeoutRef.current);
+
+    const baseline = baselineRef.current;
+    if (mood === baseline.mood && diary === baseline.diary) {
+      discardDraft(dateKey);
+      return;
+    }
+
+    pendingDraftRef.current = { date: dateKey, mood, diary, savedAt: Date.now() };
+    hasStoredDraftRef.current = true;
+    draftTimeoutRef.current = setTimeout(flushDraft, DRAFT_SAVE_DELAY);
+  }, [isOpen, dateKey, editorDate, mood, diary, recoveredDraft, flushDraft, discardDraft]);
+
+  // The debounce must not drop the last keystrokes when the tab is hidden or closed
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushDraft();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flushDraft);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flushDraft);
+      flushDraft();
+    };
+  }, [flushDraft]);
+
+  const restoreDraft = useCallback(() => {
+    if (!recoveredDraft) return;
+    setMood(recoveredDraft.mood);
+    setDiary(recoveredDraft.diary);
+    setRecoveredDraft(null);
+  }, [recoveredDraft]);
+
   const debouncedAddToHistory = useMemo(() => {
     let timeoutId: NodeJS.Timeout;
     return (state: { diary: string; mood: MoodColor }) => {
@@ -110,15 +555,21 @@ export const Diary: React.FC<{
     const previousState = undo();
     if (previousState) {
       setDiary(previousState.diary || '');
-      setMood(previousState.mood || 'grey');
+      setMood(previousState.mood || NO_MOOD);
     }
   }, [undo]);
 
+  // Loads the version into the editor; it is stored as a new revision when saved
+  const restoreRevision = useCallback((revision: MoodEntry) => {
+    setMood(revision.mood);
+    setDiary(cleanupTags(revision.diary || ''));
+  }, []);
+
   const handleRedo = useCallback(() => {
     const nextState = redo();
     if (nextState) {
       setDiary(nextState.diary || '');
-      setMood(nextState.mood || 'grey');
+      setMood(nextState.mood || NO_MOOD);
     }
   }, [redo]);
 
@@ -269,13 +720,63 @@ export const Diary: React.FC<{
     }
   }, [diary, convertTagsToHTML]);
 
+  // Carries over what the editor does not edit itself, such as the check-ins
+  const buildEntry = useCallback(
+    (): MoodEntry => ({ ...entryRef.current, date: formatDate(date), mood, diary }),
+    [date, mood, diary]
+  );
+
+  // Check-ins, activities, metrics and trackers are saved right away, on top of the saved entry rather than the
+  // editor's edits
+  const saveDetails = useCallback(
+    (details: Pick<MoodEntry, 'checkIns' | 'activities' | 'metrics' | 'trackers'>) => {
+      const saved: MoodEntry = { ...(entryRef.current ?? { date: dateKey, mood: NO_MOOD, diary: '' }), ...details };
+      if (!saved.checkIns?.length) delete saved.checkIns;
+      if (!saved.activities?.length) delete saved.activities;
+      if (!saved.trackers) delete saved.trackers;
+      onSave(withMetrics(saved, saved.metrics ?? {}));
+    },
+    [dateKey, onSave]
+  );
+
+  const addCheckIn = useCallback(
+    (checkIn: CheckIn) => saveDetails({ checkIns: sortCheckIns([...(entryRef.current?.checkIns ?? []), checkIn]) }),
+    [saveDetails]
+  );
+
+  const removeCheckIn = useCallback(
+    (index: number) => saveDetails({ checkIns: (entryRef.current?.checkIns ?? []).filter((_, i) => i !== index) }),
+    [saveDetails]
+  );
+
+  const toggleActivity = useCallback(
+    (id: string) => {
+      const activities = entryRef.current?.activities ?? [];
+      saveDetails({
+        activities: activities.includes(id) ? activities.filter((activity) => activity !== id) : [...activities, id],
+      });
+    },
+    [saveDetails]
+  );
+
+  const updateMetric = useCallback(
+    (key: MetricKey, value: number | undefined) =>
+      saveDetails({ metrics: { ...entryRef.current?.metrics, [key]: value } }),
+    [saveDetails]
+  );
+
+  const updateTracker = useCallback(
+    (id: string, value: number | undefined) => {
+      const current: MoodEntry = entryRef.current ?? { date: dateKey, mood: NO_MOOD, diary: '' };
+      saveDetails({ trackers: withTrackerValue(current, id, value).trackers });
+    },
+    [dateKey, saveDetails]
+  );
+
   const handleSave = useCallback(() => {
     setSaveState('saving');
-    onSave({
-      date: formatDate(date),
-      mood,
-      diary,
-    });
+    onSave(buildEntry());
+    discardDraft(formatDate(date));
 
     setTimeout(() => {
       setSaveState('saved');
@@ -283,25 +784,22 @@ export const Diary: React.FC<{
         setSaveState('idle');
       }, 1000);
     }, 600);
-  }, [date, mood, diary, onSave]);
+  }, [date, buildEntry, onSave, discardDraft]);
 
   const handleSaveAndClose = useCallback(() => {
-    onSave({
-      date: formatDate(date),
-      mood,
-      diary,
-    });
+    onSave(buildEntry());
+    discardDraft(formatDate(date));
     onClose();
-  }, [date, mood, diary, onSave, onClose]);
+  }, [date, buildEntry, onSave, onClose, discardDraft]);
 
+  // Closing without an edit is not a save
   const handleClose = useCallback(() => {
-    onSave({
-      date: formatDate(date),
-      mood,
-      diary,
-    });
+    const built = buildEntry();
+    const saved = entryRef.current;
+    if (saved ? !isSameEntryContent(saved, built) : hasEntryContent(built)) onSave(built);
+    discardDraft(formatDate(date));
     onClose();
-  }, [date, mood, diary, onSave, onClose]);
+  }, [date, buildEntry, onSave, onClose, discardDraft]);
 
   if (!isOpen) return null;
 
@@ -331,12 +829,44 @@ export const Diary: React.FC<{
             <h3 className="diary-mood-title">How are you feeling?</h3>
             <div className="diary-mood-selector">
               <div className="flex flex-col items-center gap-0.5">
-                <MoodSelector selectedMood={mood} onMoodChange={setMood} customLabels={settings.customLabels} />
-                <div className="diary-mood-label mt-0.5">{settings.customLabels[mood]}</div>
+                <MoodSelector selectedMood={mood} onMoodChange={setMood} settings={settings} />
+                <div className="diary-mood-label mt-0.5">{getMoodLabel(mood, settings)}</div>
               </div>
             </div>
+            <ActivityPicker selected={entry?.activities ?? []} onToggle={toggleActivity} settings={settings} />
+            <TrackerRow values={entry?.trackers ?? {}} onChange={updateTracker} settings={settings} />
           </div>
 
+          {recoveredDraft && (
+            <div className="diary-remote-warning" role="alert">
+              <span>
+                Recovered unsaved changes from {new Date(recoveredDraft.savedAt).toLocaleString()}.
+              </span>
+              <div className="flex gap-2">
+                <button type="button" onClick={restoreDraft} className="diary-remote-action">
+                  Restore draft
+                </button>
+                <button type="button" onClick={() => discardDraft(dateKey)} className="diary-remote-action">
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
+
+          {remoteChange && (
+            <div className="diary-remote-warning" role="alert">
+              <span>This entry was changed in another tab. Saving will overwrite that version.</span>
+              <div className="flex gap-2">
+                <button type="button" onClick={loadRemoteChange} className="diary-remote-action">
+                  Load theirs
+                </button>
+                <button type="button" onClick={keepLocalChanges} className="diary-remote-action">
+                  Keep mine
+                </button>
+              </div>
+            </div>
+          )}
+
           <div className="diary-textarea-container-compact">
             <div className="flex-1 min-h-0 relative">
               <div
@@ -407,11 +937,38 @@ export const Diary: React.FC<{
                 >
                   <Redo size={18} />
                 </button>
+
+                <button
+                  onClick={() => setIsHistoryOpen(true)}
+                  className="diary-action-button"
+                  title="Version history"
+                  type="button"
+                >
+                  <History size={18} />
+                </button>
               </div>
             </div>
           </div>
+
+          <MetricsPanel metrics={entry?.metrics ?? {}} onChange={updateMetric} settings={settings} />
+
+          <CheckInPanel
+            checkIns={entry?.checkIns ?? []}
+            onAdd={addCheckIn}
+            onRemove={removeCheckIn}
+            settings={settings}
+          />
         </div>
       </div>
+
+      <RevisionHistory
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        date={formatDate(date)}
+        current={{ mood, diary }}
+        onRestore={restoreRevision}
+        settings={settings}
+      />
     </div>
   );
 };
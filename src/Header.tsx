@@ -1,5 +1,15 @@
 import React, { useState } from 'react';
-import { ChevronLeft, ChevronRight, Calendar, Grid3x3, List, Settings as SettingsIcon, Search } from 'lucide-react';
+import {
+  ChevronLeft,
+  ChevronRight,
+  Calendar,
+  Grid3x3,
+  List,
+  Settings as SettingsIcon,
+  Search,
+  Hash,
+  BarChart3,
+} from 'lucide-react';
 import { ViewMode, Settings } from './types';
 import { addMonths } from './utils';
 import { Button, IconButton, Modal } from './components';
@@ -218,6 +228,8 @@ export const AppHeader: React.FC<{
   viewMode: ViewMode;
   onViewModeChange: (mode: ViewMode) => void;
   onSettingsClick: () => void;
+  onMentionIndexClick: () => void;
+  onStatsClick: () => void;
   searchQuery?: string;
   onSearchChange?: (query: string) => void;
   settings: Settings;
@@ -227,6 +239,8 @@ export const AppHeader: React.FC<{
   viewMode,
   onViewModeChange,
   onSettingsClick,
+  onMentionIndexClick,
+  onStatsClick,
   searchQuery = '',
   onSearchChange,
   settings,
@@ -241,6 +255,16 @@ export const AppHeader: React.FC<{
 
       <div className="nav-button-group">
         <ViewModeToggle currentMode={viewMode} onModeChange={onViewModeChange} settings={settings} />
+        <IconButton
+          icon={<Hash size={18} className="icon-md" style={{ color: settings.customColors.text }} />}
+          onClick={onMentionIndexClick}
+          title="Tags & People"
+        />
+        <IconButton
+          icon={<BarChart3 size={18} className="icon-md" style={{ color: settings.customColors.text }} />}
+          onClick={onStatsClick}
+          title="Stats"
+        />
         <IconButton
           icon={<SettingsIcon size={18} className="icon-md" style={{ color: settings.customColors.text }} />}
           onClick={onSettingsClick}
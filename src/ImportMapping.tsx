@@ -0,0 +1,214 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import { MoodEntry, MoodColor, Activity, Settings, NO_MOOD } from './types';
+import { Modal, Button } from './components';
+import { createActivityResolver, getMoodColor, getMoodLabel, getMoodOptions } from './utils';
+import {
+  SourceTable,
+  SourceFormat,
+  ColumnMapping,
+  DateFormat,
+  MoodMapping,
+  IMPORT_ADAPTERS,
+  getAdapter,
+  detectSourceFormat,
+  getMoodValues,
+  suggestMoodMapping,
+  convertSourceRows,
+} from './importAdapters';
+
+const DATE_FORMAT_OPTIONS: Array<{ value: DateFormat; label: string }> = [
+  { value: 'iso', label: 'YYYY-MM-DD' },
+  { value: 'dmy', label: 'DD/MM/YYYY' },
+  { value: 'mdy', label: 'MM/DD/YYYY' },
+];
+
+const ColumnSelect: React.FC<{
+  label: string;
+  value: number;
+  headers: string[];
+  onChange: (value: number) => void;
+  allowNone?: boolean;
+}> = ({ label, value, headers, onChange, allowNone = false }) => (
+  <label className="mapping-field">
+    <span className="mapping-field-label">{label}</span>
+    <select value={value} onChange={(e) => onChange(Number(e.target.value))} className="mapping-select">
+      {allowNone && <option value={-1}>None</option>}
+      {headers.map((header, index) => (
+        <option key={index} value={index}>
+          {header || `Column ${index + 1}`}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+export const ImportMapping: React.FC<{
+  isOpen: boolean;
+  table: SourceTable;
+  onCancel: () => void;
+  onConfirm: (entries: MoodEntry[], sourceLabel: string, skipped: number, activities: Activity[]) => void;
+  settings: Settings;
+}> = ({ isOpen, table, onCancel, onConfirm, settings }) => {
+  const [sourceFormat, setSourceFormat] = useState<SourceFormat>(() => detectSourceFormat(table.headers));
+  const [columns, setColumns] = useState<ColumnMapping>(() => getAdapter(sourceFormat).defaultColumns(table.headers));
+  const moodValues = useMemo(() => getMoodValues(table, columns), [table, columns]);
+  const [moodMapping, setMoodMapping] = useState<MoodMapping>(() =>
+    suggestMoodMapping(moodValues, settings.moodScale)
+  );
+
+  const handleSourceFormatChange = useCallback(
+    (format: SourceFormat) => {
+      const nextColumns = getAdapter(format).defaultColumns(table.headers);
+      setSourceFormat(format);
+      setColumns(nextColumns);
+      setMoodMapping(suggestMoodMapping(getMoodValues(table, nextColumns), settings.moodScale));
+    },
+    [table, settings.moodScale]
+  );
+
+  const updateColumns = useCallback(
+    (changes: Partial<ColumnMapping>) => {
+      const nextColumns = { ...columns, ...changes };
+      setColumns(nextColumns);
+      if (changes.mood !== undefined) {
+        setMoodMapping(suggestMoodMapping(getMoodValues(table, nextColumns), settings.moodScale));
+      }
+    },
+    [columns, table, settings.moodScale]
+  );
+
+  const toggleDiaryColumn = useCallback(
+    (index: number) => {
+      updateColumns({
+        diary: columns.diary.includes(index)
+          ? columns.diary.filter((column) => column !== index)
+          : [...columns.diary, index].sort((a, b) => a - b),
+      });
+    },
+    [columns.diary, updateColumns]
+  );
+
+  const handleConfirm = useCallback(() => {
+    const activities = createActivityResolver(settings);
+    const { entries, skipped } = convertSourceRows(table, columns, moodMapping, activities);
+    onConfirm(entries, getAdapter(sourceFormat).name, skipped, activities.created);
+  }, [table, columns, moodMapping, sourceFormat, onConfirm, settings]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onCancel} size="lg" title="Import from Another App">
+      <div className="space-responsive-md">
+        <div className="import-resolution-group">
+          {IMPORT_ADAPTERS.map((adapter) => (
+            <button
+              key={adapter.id}
+              type="button"
+              onClick={() => handleSourceFormatChange(adapter.id)}
+              className={`import-resolution-button ${sourceFormat === adapter.id ? 'import-resolution-active' : ''}`}
+            >
+              {adapter.name}
+            </button>
+          ))}
+        </div>
+
+        <p className="opacity-70 text-sm">{table.rows.length} rows found.</p>
+
+        <div className="mapping-grid">
+          <ColumnSelect
+            label="Date column"
+            value={columns.date}
+            headers={table.headers}
+            onChange={(date) => updateColumns({ date })}
+          />
+          <label className="mapping-field">
+            <span className="mapping-field-label">Date format</span>
+            <select
+              value={columns.dateFormat}
+              onChange={(e) => updateColumns({ dateFormat: e.target.value as DateFormat })}
+              className="mapping-select"
+            >
+              {DATE_FORMAT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <ColumnSelect
+            label="Mood column"
+            value={columns.mood}
+            headers={table.headers}
+            onChange={(mood) => updateColumns({ mood })}
+            allowNone
+          />
+          <ColumnSelect
+            label="Time column"
+            value={columns.time}
+            headers={table.headers}
+            onChange={(time) => updateColumns({ time })}
+            allowNone
+          />
+          <ColumnSelect
+            label="Activities column"
+            value={columns.activities}
+            headers={table.headers}
+            onChange={(activities) => updateColumns({ activities })}
+            allowNone
+          />
+        </div>
+
+        <div>
+          <h3 className="section-title mb-2">Diary columns</h3>
+          <div className="import-date-list">
+            {table.headers.map((header, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => toggleDiaryColumn(index)}
+                className={`import-resolution-button ${columns.diary.includes(index) ? 'import-resolution-active' : ''}`}
+              >
+                {header || `Column ${index + 1}`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {moodValues.length > 0 && (
+          <div className="settings-section">
+            <h3 className="section-title mb-2">Map moods</h3>
+            <div className="space-y-2">
+              {moodValues.map((value) => {
+                const mood = moodMapping[value] ?? NO_MOOD;
+                return (
+                  <div key={value} className="mapping-mood-row">
+                    <span className="mapping-mood-source">{value}</span>
+                    <span className="import-mood-dot" style={{ backgroundColor: getMoodColor(mood, settings) }} />
+                    <select
+                      value={mood}
+                      onChange={(e) => setMoodMapping((prev) => ({ ...prev, [value]: e.target.value as MoodColor }))}
+                      className="mapping-select"
+                    >
+                      {getMoodOptions(settings).map((color) => (
+                        <option key={color} value={color}>
+                          {getMoodLabel(color, settings)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="modal-footer mt-6">
+        <Button variant="secondary" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={handleConfirm} accentColor={settings.customColors.accent} className="flex-1">
+          Preview Import
+        </Button>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import { MoodEntry, Settings } from './types';
+import { Modal, Button } from './components';
+import { CheckInList, ActivityList, MetricList, TrackerList } from './ViewModes';
+import {
+  ImportPlan,
+  ImportConflict,
+  ImportResolution,
+  parseDate,
+  formatDisplayDate,
+  processLineBreaks,
+  resolveConflict,
+  getMoodColor,
+  getMoodLabel,
+} from './utils';
+
+// The same review is used for imports and for dates edited on two devices between syncs
+const PREVIEW_LABELS = {
+  import: { title: 'Review Import', incoming: 'Imported', theirs: 'Take imported' },
+  sync: { title: 'Resolve Sync Conflicts', incoming: 'Other device', theirs: 'Take other device' },
+} as const;
+
+type PreviewMode = keyof typeof PREVIEW_LABELS;
+
+const getResolutionOptions = (mode: PreviewMode): Array<{ value: ImportResolution; label: string }> => [
+  { value: 'mine', label: 'Keep mine' },
+  { value: 'theirs', label: PREVIEW_LABELS[mode].theirs },
+  { value: 'merge', label: 'Merge diaries' },
+];
+
+const EntrySide: React.FC<{
+  title: string;
+  entry: MoodEntry;
+  settings: Settings;
+}> = React.memo(({ title, entry, settings }) => (
+  <div className="import-conflict-side">
+    <div className="import-conflict-side-header">
+      <span className="opacity-60">{title}</span>
+      <span className="import-conflict-mood">
+        <span className="import-mood-dot" style={{ backgroundColor: getMoodColor(entry.mood, settings) }} />
+        {getMoodLabel(entry.mood, settings)}
+      </span>
+    </div>
+    <div className="import-conflict-diary">
+      {entry.diary ? processLineBreaks(entry.diary) : <span className="opacity-50">No diary text</span>}
+      <ActivityList entry={entry} settings={settings} />
+      <MetricList metrics={entry.metrics} />
+      <TrackerList entry={entry} settings={settings} />
+      <CheckInList checkIns={entry.checkIns} settings={settings} />
+    </div>
+  </div>
+));
+
+const ConflictRow: React.FC<{
+  conflict: ImportConflict;
+  resolution: ImportResolution;
+  onResolutionChange: (date: string, resolution: ImportResolution) => void;
+  mode: PreviewMode;
+  settings: Settings;
+}> = React.memo(({ conflict, resolution, onResolutionChange, mode, settings }) => {
+  const merged = useMemo(() => resolveConflict(conflict, 'merge'), [conflict]);
+
+  return (
+    <div className="import-conflict">
+      <div className="import-conflict-header">
+        <h4 className="entry-date">{formatDisplayDate(parseDate(conflict.date))}</h4>
+        <div className="import-resolution-group">
+          {getResolutionOptions(mode).map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onResolutionChange(conflict.date, option.value)}
+              className={`import-resolution-button ${resolution === option.value ? 'import-resolution-active' : ''}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="import-conflict-sides">
+        <EntrySide title="Mine" entry={conflict.current} settings={settings} />
+        <EntrySide title={PREVIEW_LABELS[mode].incoming} entry={conflict.incoming} settings={settings} />
+      </div>
+      {resolution === 'merge' && <EntrySide title="Merged result" entry={merged} settings={settings} />}
+    </div>
+  );
+});
+
+export const ImportPreview: React.FC<{
+  isOpen: boolean;
+  plan: ImportPlan;
+  sourceLabel: string;
+  settingChanges?: string[]; // labels of the settings a backup restore replaces
+  skipped?: number; // rows of the source that could not be read
+  mode?: PreviewMode;
+  onCancel: () => void;
+  onConfirm: (resolutions: Record<string, ImportResolution>) => void;
+  settings: Settings;
+}> = ({
+  isOpen,
+  plan,
+  sourceLabel,
+  settingChanges,
+  skipped = 0,
+  mode = 'import',
+  onCancel,
+  onConfirm,
+  settings,
+}) => {
+  const [resolutions, setResolutions] = useState<Record<string, ImportResolution>>({});
+
+  const setAllResolutions = useCallback(
+    (resolution: ImportResolution) => {
+      setResolutions(Object.fromEntries(plan.conflicts.map((conflict) => [conflict.date, resolution])));
+    },
+    [plan.conflicts]
+  );
+
+  const handleResolutionChange = useCallback((date: string, resolution: ImportResolution) => {
+    setResolutions((prev) => ({ ...prev, [date]: resolution }));
+  }, []);
+
+  const changedCount = useMemo(
+    () =>
+      plan.added.length + plan.conflicts.filter((conflict) => (resolutions[conflict.date] ?? 'mine') !== 'mine').length,
+    [plan, resolutions]
+  );
+  const restoresSettings = !!settingChanges?.length;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onCancel} size="xl" title={PREVIEW_LABELS[mode].title}>
+      <div className="space-responsive-md">
+        <p className="opacity-70 text-sm">
+          {sourceLabel}: nothing is written until you confirm.
+          {settingChanges &&
+            (settingChanges.length > 0
+              ? ` These settings will also be replaced by the backup's: ${settingChanges.join(', ')}.`
+              : ' The settings in the backup match yours.')}
+          {settingChanges && ' The PIN lock on this device stays as it is.'}
+        </p>
+
+        <div className="import-summary">
+          <div className="import-summary-item">
+            <span className="import-summary-count">{plan.added.length}</span>
+            <span>New</span>
+          </div>
+          <div className="import-summary-item">
+            <span className="import-summary-count">{plan.identical.length}</span>
+            <span>Identical</span>
+          </div>
+          <div className="import-summary-item">
+            <span className="import-summary-count">{plan.conflicts.length}</span>
+            <span>Conflicts</span>
+          </div>
+          {skipped > 0 && (
+            <div className="import-summary-item" title="Rows that could not be read">
+              <span className="import-summary-count">{skipped}</span>
+              <span>Skipped</span>
+            </div>
+          )}
+        </div>
+
+        {plan.added.length > 0 && (
+          <div className="settings-section">
+            <h3 className="section-title mb-2">New dates</h3>
+            <div className="import-date-list">
+              {plan.added.map((entry) => (
+                <span key={entry.date} className="import-date-chip">
+                  <span className="import-mood-dot" style={{ backgroundColor: getMoodColor(entry.mood, settings) }} />
+                  {entry.date}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {plan.conflicts.length > 0 && (
+          <div className="settings-section space-y-3">
+            <div className="flex-between flex-wrap gap-2">
+              <h3 className="section-title">Conflicting dates</h3>
+              <div className="import-resolution-group">
+                {getResolutionOptions(mode).map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setAllResolutions(option.value)}
+                    className="import-resolution-button"
+                  >
+                    All: {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {plan.conflicts.map((conflict) => (
+              <ConflictRow
+                key={conflict.date}
+                conflict={conflict}
+                resolution={resolutions[conflict.date] ?? 'mine'}
+                onResolutionChange={handleResolutionChange}
+                mode={mode}
+                settings={settings}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="modal-footer mt-6">
+        <Button variant="secondary" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          onClick={() => onConfirm(resolutions)}
+          accentColor={settings.customColors.accent}
+          className="flex-1"
+          disabled={mode === 'import' && changedCount === 0 && !restoresSettings}
+        >
+          {mode === 'sync'
+            ? 'Apply and Sync'
+            : changedCount === 0
+              ? restoresSettings
+                ? 'Restore Settings'
+                : 'Nothing to Import'
+              : `Import ${changedCount}`}
+        </Button>
+      </div>
+    </Modal>
+  );
+};
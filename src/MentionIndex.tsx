@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { MoodEntry, Settings } from './types';
+import { Modal } from './components';
+import { MentionKind, MentionSummary, buildMentionIndex, formatDisplayDate, parseDate } from './utils';
+
+const GROUPS: { kind: MentionKind; title: string }[] = [
+  { kind: 'hashtag', title: 'Tags' },
+  { kind: 'mention', title: 'People' },
+];
+
+const formatDateRange = (summary: MentionSummary): string => {
+  const first = formatDisplayDate(parseDate(summary.firstDate));
+  return summary.firstDate === summary.lastDate
+    ? first
+    : `${first} – ${formatDisplayDate(parseDate(summary.lastDate))}`;
+};
+
+const MentionRow: React.FC<{
+  summary: MentionSummary;
+  onSelect: (mention: string) => void;
+}> = React.memo(({ summary, onSelect }) => (
+  <button type="button" onClick={() => onSelect(summary.text)} className="trash-row mention-index-row">
+    <span className="mention-chip">{summary.text}</span>
+    <div className="trash-row-body">
+      <div className="trash-row-date">
+        {summary.count} {summary.count === 1 ? 'entry' : 'entries'}
+      </div>
+      <div className="trash-row-meta">{formatDateRange(summary)}</div>
+    </div>
+  </button>
+));
+
+export const MentionIndex: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  entries: MoodEntry[];
+  onSelect: (mention: string) => void;
+  settings: Settings;
+}> = ({ isOpen, onClose, entries, onSelect, settings }) => {
+  const index = useMemo(() => buildMentionIndex(entries), [entries]);
+
+  const handleSelect = (mention: string) => {
+    onSelect(mention);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg" title="Tags & People">
+      {index.length === 0 ? (
+        <p className="text-center opacity-60 py-6">
+          Write <span className="mention-chip">#tag</span> or <span className="mention-chip">@name</span> in a diary
+          entry to see it here.
+        </p>
+      ) : (
+        <div className="mention-index">
+          {GROUPS.map(({ kind, title }) => {
+            const summaries = index.filter((summary) => summary.kind === kind);
+            if (summaries.length === 0) return null;
+            return (
+              <section key={kind}>
+                <h3 className="activity-category-title" style={{ color: settings.customColors.accent }}>
+                  {title}
+                </h3>
+                <div className="trash-list">
+                  {summaries.map((summary) => (
+                    <MentionRow key={summary.text} summary={summary} onSelect={handleSelect} />
+                  ))}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Download } from 'lucide-react';
+import { Settings } from './types';
+import { Modal, Button } from './components';
+import { QuarantinedRecord, loadQuarantine } from './storage';
+import { downloadFile, getExportFileName } from './utils';
+
+const SOURCE_LABELS: Record<string, string> = {
+  entries: 'Entry',
+  meta: 'Settings',
+};
+
+const QuarantineRow: React.FC<{ record: QuarantinedRecord }> = React.memo(({ record }) => (
+  <div className="trash-row">
+    <div className="trash-row-body">
+      <div className="trash-row-date">
+        {SOURCE_LABELS[record.source] ?? record.source}
+        <span className="snapshot-kind">{new Date(record.quarantinedAt).toLocaleString()}</span>
+      </div>
+      <div className="trash-row-meta">{record.reason}</div>
+    </div>
+  </div>
+));
+
+// Records that could not be read are never deleted; exporting them lets them be repaired by hand or sent along
+// with a bug report
+export const Quarantine: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  settings: Settings;
+  showStatusMessage: (message: string, type?: 'success' | 'error') => void;
+}> = ({ isOpen, onClose, settings, showStatusMessage }) => {
+  const [records, setRecords] = useState<QuarantinedRecord[] | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setRecords(null);
+    loadQuarantine()
+      .then(setRecords)
+      .catch((error) => {
+        showStatusMessage(error instanceof Error ? error.message : 'Could not open the quarantine.', 'error');
+        setRecords([]);
+      });
+  }, [isOpen, showStatusMessage]);
+
+  const handleExport = useCallback(() => {
+    if (!records) return;
+    downloadFile(JSON.stringify(records, null, 2), getExportFileName('quarantine.json'), 'application/json');
+  }, [records]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg" title="Quarantine">
+      <div className="space-responsive-md">
+        <p className="text-sm opacity-70">
+          Data the journal could not read is set aside here instead of being deleted.
+        </p>
+
+        <div className="trash-list">
+          {records === null ? (
+            <p className="text-center opacity-60 py-6">Loading...</p>
+          ) : records.length === 0 ? (
+            <p className="text-center opacity-60 py-6">Nothing has been set aside.</p>
+          ) : (
+            records.map((record, index) => <QuarantineRow key={record.id ?? index} record={record} />)
+          )}
+        </div>
+      </div>
+
+      {records && records.length > 0 && (
+        <div className="modal-footer mt-6">
+          <Button
+            variant="primary"
+            onClick={handleExport}
+            accentColor={settings.customColors.accent}
+            className="flex-1 flex-center gap-2"
+          >
+            <Download size={16} />
+            Export as JSON
+          </Button>
+        </div>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { MoodEntry, MoodColor, Settings } from './types';
+import { Modal, Button } from './components';
+import { EntryRevision, loadRevisions } from './storage';
+import { cleanupTags, stripFormattingTags, diffWords, getMoodColor, getMoodLabel } from './utils';
+
+const toPlainText = (diary: string): string => stripFormattingTags(cleanupTags(diary || ''));
+
+const RevisionRow: React.FC<{
+  revision: EntryRevision;
+  isSelected: boolean;
+  isLatest: boolean;
+  onSelect: (revision: EntryRevision) => void;
+  settings: Settings;
+}> = React.memo(({ revision, isSelected, isLatest, onSelect, settings }) => (
+  <button
+    type="button"
+    onClick={() => onSelect(revision)}
+    className={`trash-row revision-row ${isSelected ? 'revision-row-selected' : ''}`}
+  >
+    <span className="import-mood-dot" style={{ backgroundColor: getMoodColor(revision.entry.mood, settings) }} />
+    <div className="trash-row-body">
+      <div className="trash-row-date">
+        {new Date(revision.savedAt).toLocaleString()}
+        {isLatest && <span className="snapshot-kind">Last saved</span>}
+      </div>
+      <div className="trash-row-meta">{toPlainText(revision.entry.diary).slice(0, 60) || 'No diary text'}</div>
+    </div>
+  </button>
+));
+
+export const RevisionHistory: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  date: string;
+  current: { mood: MoodColor; diary: string };
+  onRestore: (entry: MoodEntry) => void;
+  settings: Settings;
+}> = ({ isOpen, onClose, date, current, onRestore, settings }) => {
+  const [revisions, setRevisions] = useState<EntryRevision[] | null>(null);
+  const [selected, setSelected] = useState<EntryRevision | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setRevisions(null);
+    setSelected(null);
+    setError(null);
+    loadRevisions(date)
+      .then((loaded) => {
+        setRevisions(loaded);
+        setSelected(loaded[0] ?? null);
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Could not load the history.');
+        setRevisions([]);
+      });
+  }, [isOpen, date]);
+
+  // Shows what restoring the revision would change in the editor
+  const diff = useMemo(
+    () => selected && diffWords(toPlainText(current.diary), toPlainText(selected.entry.diary)),
+    [selected, current.diary]
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="xl" title="Version History">
+      {error && <p className="unlock-error mb-3">{error}</p>}
+
+      <div className="revision-layout">
+        <div className="trash-list">
+          {revisions === null ? (
+            <p className="text-center opacity-60 py-6">Loading...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-center opacity-60 py-6">No saved versions of this entry yet.</p>
+          ) : (
+            revisions.map((revision, index) => (
+              <RevisionRow
+                key={revision.id}
+                revision={revision}
+                isSelected={revision.id === selected?.id}
+                isLatest={index === 0}
+                onSelect={setSelected}
+                settings={settings}
+              />
+            ))
+          )}
+        </div>
+
+        {selected && diff && (
+          <div className="revision-preview">
+            <p className="text-sm opacity-70">
+              Changes from the text in the editor to this version
+              {selected.entry.mood !== current.mood &&
+                ` · mood ${getMoodLabel(current.mood, settings)} → ${getMoodLabel(selected.entry.mood, settings)}`}
+            </p>
+            <div className="revision-diff">
+              {diff.length === 0 ? (
+                <span className="opacity-50">No diary text</span>
+              ) : (
+                diff.map((part, index) => (
+                  <span key={index} className={part.type === 'same' ? undefined : `revision-diff-${part.type}`}>
+                    {part.text}
+                  </span>
+                ))
+              )}
+            </div>
+            <Button
+              variant="primary"
+              onClick={() => {
+                onRestore(selected.entry);
+                onClose();
+              }}
+              accentColor={settings.customColors.accent}
+              className="w-full flex-center gap-2"
+            >
+              <RotateCcw size={16} />
+              Restore This Version
+            </Button>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
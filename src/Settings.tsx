@@ -1,8 +1,889 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { Download, Upload, Trash2, Image, RotateCcw, Sun, Moon } from 'lucide-react';
-import { MoodEntry, Settings, DEFAULT_SETTINGS } from './types';
-import { Modal, Button } from './components';
-import { exportData, importData, getValidEntries, compressImage } from './utils';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import {
+  Download,
+  Upload,
+  Trash2,
+  Image,
+  RotateCcw,
+  Sun,
+  Moon,
+  Archive,
+  Table,
+  FileInput,
+  FileText,
+  Printer,
+  Grid3x3,
+  Lock,
+  Unlock,
+  ShieldCheck,
+  KeyRound,
+  ArchiveRestore,
+  History,
+  FolderSync,
+  RefreshCw,
+  Server,
+  Cloud,
+  AlertTriangle,
+  ShieldAlert,
+  Plus,
+  X,
+  Check,
+} from 'lucide-react';
+import {
+  MoodEntry,
+  MoodColor,
+  Settings,
+  AppLockSettings,
+  Activity,
+  Tracker,
+  TrackerKind,
+  DayMoodRule,
+  MoodLevel,
+  NO_MOOD,
+  DEFAULT_SETTINGS,
+  DEFAULT_MOOD_SCALE,
+  DAY_MOOD_RULES,
+  TRACKER_KINDS,
+  MIN_MOOD_LEVELS,
+  MAX_MOOD_LEVELS,
+} from './types';
+import { Modal, Button, IconButton, ActivityChip } from './components';
+import {
+  exportData,
+  importData,
+  getValidEntries,
+  compressImage,
+  exportCsv,
+  importCsv,
+  exportMarkdownFiles,
+  createBackup,
+  restoreBackup,
+  isEncryptedBackup,
+  downloadFile,
+  getExportFileName,
+  planImport,
+  applyImportPlan,
+  ImportPlan,
+  ImportResolution,
+  createActivityResolver,
+  createActivityId,
+  groupActivitiesByCategory,
+  createTrackerId,
+  getTrackerStreaks,
+  getMoodLevel,
+  getMoodColor,
+  getMoodLabel,
+  getMoodOptions,
+  createMoodLevelId,
+  normalizeMoodScale,
+  remapEntryMoods,
+  getRestoredSettingChanges,
+  withLocalAppLock,
+} from './utils';
+import { createZip } from './zip';
+import { ImportPreview } from './ImportPreview';
+import { ImportMapping } from './ImportMapping';
+import { SourceTable, readSourceTable } from './importAdapters';
+import {
+  getJournalEncryption,
+  TrashedEntry,
+  createSnapshot,
+  getStorageErrorMessage,
+  SnapshotData,
+  SnapshotKind,
+} from './storage';
+import { Trash } from './Trash';
+import { Snapshots } from './Snapshots';
+import { Quarantine } from './Quarantine';
+import { bytesToBase64, randomBytes, hashPin } from './crypto';
+import { FolderSync as FolderSyncControls, ServerSync, WebDavSync } from './hooks';
+import { JOURNAL_FILE_NAME } from './folderSync';
+import { SYNC_PAUSED_BY_ENCRYPTION } from './sync';
+
+const MAX_TEXT_IMPORT_SIZE = 1024 * 1024;
+const MAX_BACKUP_IMPORT_SIZE = 20 * 1024 * 1024;
+
+type ImportFormat = 'text' | 'csv' | 'backup';
+
+const IMPORT_FORMATS: Record<string, ImportFormat> = {
+  txt: 'text',
+  csv: 'csv',
+  json: 'backup',
+};
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+const IDLE_LOCK_OPTIONS = [
+  { minutes: 0, label: 'Never' },
+  { minutes: 1, label: '1 minute' },
+  { minutes: 5, label: '5 minutes' },
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+];
+
+type PassphraseMode = 'enable' | 'disable' | 'restore' | 'pin';
+
+const PASSPHRASE_PROMPTS: Record<PassphraseMode, { title: string; description: string; action: string }> = {
+  enable: {
+    title: 'Encrypt Journal',
+    description:
+      'Entries will be encrypted on this device with a key derived from your passphrase. If you forget it, your entries cannot be recovered.',
+    action: 'Encrypt',
+  },
+  disable: {
+    title: 'Turn Off Encryption',
+    description: 'Enter your passphrase to store entries unencrypted on this device again.',
+    action: 'Decrypt',
+  },
+  restore: {
+    title: 'Encrypted Backup',
+    description: 'This backup is encrypted. Enter the passphrase that was used when it was created.',
+    action: 'Restore',
+  },
+  pin: {
+    title: 'Set PIN',
+    description: 'Choose a 4 to 8 digit PIN. It hides the journal from people using this device, but does not encrypt it.',
+    action: 'Save PIN',
+  },
+};
+
+const PassphraseModal: React.FC<{
+  mode: PassphraseMode;
+  onCancel: () => void;
+  onSubmit: (passphrase: string) => Promise<void>;
+  settings: Settings;
+}> = ({ mode, onCancel, onSubmit, settings }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const prompt = PASSPHRASE_PROMPTS[mode];
+  const isNewSecret = mode === 'enable' || mode === 'pin';
+
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (mode === 'enable' && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+      if (mode === 'pin' && !PIN_PATTERN.test(passphrase)) {
+        setError('PIN must be 4 to 8 digits.');
+        return;
+      }
+      if (isNewSecret && passphrase !== confirmation) {
+        setError(mode === 'pin' ? 'PINs do not match.' : 'Passphrases do not match.');
+        return;
+      }
+
+      setIsWorking(true);
+      setError(null);
+      try {
+        await onSubmit(passphrase);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Something went wrong.');
+        setIsWorking(false);
+      }
+    },
+    [mode, isNewSecret, passphrase, confirmation, onSubmit]
+  );
+
+  return (
+    <Modal isOpen={true} onClose={onCancel} size="md" showCloseButton={false}>
+      <form onSubmit={handleSubmit}>
+        <div className="confirm-modal-content">
+          <div className="confirm-modal-icon">🔐</div>
+          <h3 className="confirm-modal-title">{prompt.title}</h3>
+          <p className="confirm-modal-description mb-4">{prompt.description}</p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className="input-base mb-3"
+            placeholder={mode === 'pin' ? 'PIN' : 'Passphrase'}
+            inputMode={mode === 'pin' ? 'numeric' : undefined}
+            autoComplete={isNewSecret ? 'new-password' : 'current-password'}
+            autoFocus
+          />
+          {isNewSecret && (
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              className="input-base mb-3"
+              placeholder={mode === 'pin' ? 'Repeat PIN' : 'Repeat passphrase'}
+              inputMode={mode === 'pin' ? 'numeric' : undefined}
+              autoComplete="new-password"
+            />
+          )}
+          {error && <p className="unlock-error">{error}</p>}
+        </div>
+
+        <div className="modal-footer">
+          <Button type="button" variant="secondary" onClick={onCancel} className="flex-1">
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="primary"
+            disabled={!passphrase || isWorking}
+            accentColor={settings.customColors.accent}
+            className="flex-1"
+          >
+            {isWorking ? 'Working...' : prompt.action}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+const ServerSyncSection: React.FC<{
+  serverSync: ServerSync;
+  showStatusMessage: (message: string, type?: 'success' | 'error') => void;
+}> = ({ serverSync, showStatusMessage }) => {
+  const [url, setUrl] = useState('');
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const handleConnect = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!url.trim() || isConnecting) return;
+
+      setIsConnecting(true);
+      setError(null);
+      try {
+        await serverSync.connect(url, token);
+        setToken('');
+        showStatusMessage('Connected to the sync server.');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not connect.');
+      }
+      setIsConnecting(false);
+    },
+    [url, token, isConnecting, serverSync, showStatusMessage]
+  );
+
+  const handleSyncNow = useCallback(async () => {
+    const syncError = await serverSync.syncNow();
+    if (syncError) showStatusMessage(syncError, 'error');
+  }, [serverSync, showStatusMessage]);
+
+  const handleDisconnect = useCallback(async () => {
+    try {
+      await serverSync.disconnect();
+      showStatusMessage('Disconnected from the sync server.');
+    } catch (err) {
+      showStatusMessage(getStorageErrorMessage(err), 'error');
+    }
+  }, [serverSync, showStatusMessage]);
+
+  if (!serverSync.serverUrl) {
+    return (
+      <form onSubmit={handleConnect}>
+        <p className="folder-sync-detail">
+          Sync entries between devices through your own server. See server/README.md to run one.
+        </p>
+        {serverSync.isPausedByEncryption && <p className="folder-sync-detail">{SYNC_PAUSED_BY_ENCRYPTION}</p>}
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          className="input-base mb-3"
+          placeholder="http://localhost:8787"
+        />
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          className="input-base mb-3"
+          placeholder="Access token (optional)"
+          autoComplete="off"
+        />
+        {error && <p className="unlock-error">{error}</p>}
+        <Button
+          type="submit"
+          variant="secondary"
+          disabled={!url.trim() || isConnecting || serverSync.isPausedByEncryption}
+          className="w-full flex-center gap-2"
+        >
+          <Server size={16} />
+          {isConnecting ? 'Connecting...' : 'Connect'}
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <>
+      <p className="privacy-status">
+        <Server size={16} />
+        Syncing with {serverSync.serverUrl}
+      </p>
+      <p className="folder-sync-detail">
+        {serverSync.isPausedByEncryption
+          ? SYNC_PAUSED_BY_ENCRYPTION
+          : serverSync.isSyncing
+            ? 'Syncing...'
+            : serverSync.syncError
+              ? `Last sync failed: ${serverSync.syncError}`
+              : serverSync.lastSyncedAt
+                ? `Last synced ${new Date(serverSync.lastSyncedAt).toLocaleString()}.`
+                : 'Not synced yet.'}
+      </p>
+
+      <div className="settings-data-section">
+        <Button
+          variant="secondary"
+          onClick={handleSyncNow}
+          disabled={serverSync.isSyncing || serverSync.isPausedByEncryption}
+          className="w-full flex-center gap-2"
+        >
+          <RefreshCw size={16} />
+          Sync Now
+        </Button>
+        <Button variant="secondary" onClick={handleDisconnect} className="w-full flex-center gap-2">
+          <Trash2 size={16} />
+          Disconnect
+        </Button>
+      </div>
+    </>
+  );
+};
+
+const WebDavSection: React.FC<{
+  webDavSync: WebDavSync;
+  onReviewConflicts: () => void;
+  showStatusMessage: (message: string, type?: 'success' | 'error') => void;
+}> = ({ webDavSync, onReviewConflicts, showStatusMessage }) => {
+  const [url, setUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const handleConnect = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!url.trim() || isConnecting) return;
+
+      setIsConnecting(true);
+      setError(null);
+      try {
+        await webDavSync.connect(url, username, password);
+        setPassword('');
+        showStatusMessage('Connected to WebDAV.');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not connect.');
+      }
+      setIsConnecting(false);
+    },
+    [url, username, password, isConnecting, webDavSync, showStatusMessage]
+  );
+
+  const handleSyncNow = useCallback(async () => {
+    const syncError = await webDavSync.syncNow();
+    if (syncError) showStatusMessage(syncError, 'error');
+  }, [webDavSync, showStatusMessage]);
+
+  const handleDisconnect = useCallback(async () => {
+    try {
+      await webDavSync.disconnect();
+      showStatusMessage('Disconnected from WebDAV.');
+    } catch (err) {
+      showStatusMessage(getStorageErrorMessage(err), 'error');
+    }
+  }, [webDavSync, showStatusMessage]);
+
+  if (!webDavSync.fileUrl) {
+    return (
+      <form onSubmit={handleConnect}>
+        <p className="folder-sync-detail">
+          Keep {JOURNAL_FILE_NAME} on Nextcloud or another WebDAV server. Use an app password: it is stored on this
+          device.
+        </p>
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          className="input-base mb-3"
+          placeholder="https://cloud.example.com/remote.php/dav/files/me/Journal"
+        />
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          className="input-base mb-3"
+          placeholder="Username"
+          autoComplete="username"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="input-base mb-3"
+          placeholder="Password"
+          autoComplete="off"
+        />
+        {error && <p className="unlock-error">{error}</p>}
+        <Button
+          type="submit"
+          variant="secondary"
+          disabled={!url.trim() || isConnecting}
+          className="w-full flex-center gap-2"
+        >
+          <Cloud size={16} />
+          {isConnecting ? 'Connecting...' : 'Connect'}
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <>
+      <p className="privacy-status">
+        <Cloud size={16} />
+        <span className="truncate">Syncing with {webDavSync.fileUrl}</span>
+      </p>
+      <p className="folder-sync-detail">
+        {webDavSync.conflicts
+          ? 'Syncing is paused until the conflicting dates are resolved.'
+          : webDavSync.isSyncing
+            ? 'Syncing...'
+            : webDavSync.syncError
+              ? `Last sync failed: ${webDavSync.syncError}`
+              : webDavSync.lastSyncedAt
+                ? `Last synced ${new Date(webDavSync.lastSyncedAt).toLocaleString()}.`
+                : 'Not synced yet.'}
+      </p>
+
+      <div className="settings-data-section">
+        {webDavSync.conflicts && (
+          <Button variant="secondary" onClick={onReviewConflicts} className="w-full flex-center gap-2">
+            <AlertTriangle size={16} />
+            Review Conflicts
+          </Button>
+        )}
+        <Button
+          variant="secondary"
+          onClick={handleSyncNow}
+          disabled={webDavSync.isSyncing}
+          className="w-full flex-center gap-2"
+        >
+          <RefreshCw size={16} />
+          Sync Now
+        </Button>
+        <Button variant="secondary" onClick={handleDisconnect} className="w-full flex-center gap-2">
+          <Trash2 size={16} />
+          Disconnect
+        </Button>
+      </div>
+    </>
+  );
+};
+
+// Past entries keep the ids of removed activities, so they still show up there under the id
+const ActivitiesSection: React.FC<{
+  settings: Settings;
+  onSettingsChange: (settings: Settings) => void;
+}> = ({ settings, onSettingsChange }) => {
+  const [emoji, setEmoji] = useState('');
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const groups = useMemo(() => groupActivitiesByCategory(settings.activities), [settings.activities]);
+
+  const handleAdd = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      const trimmedName = name.trim();
+      if (!trimmedName) return;
+      if (trimmedName.includes('|')) {
+        setError('Activity names cannot contain "|".');
+        return;
+      }
+      if (settings.activities.some((activity) => activity.name.toLowerCase() === trimmedName.toLowerCase())) {
+        setError(`There is already an activity called "${trimmedName}".`);
+        return;
+      }
+
+      const activity: Activity = {
+        id: createActivityId(trimmedName, settings.activities),
+        name: trimmedName,
+        emoji: emoji.trim() || '🏷️',
+        category: category.trim() || 'Other',
+      };
+      onSettingsChange({ ...settings, activities: [...settings.activities, activity] });
+      setName('');
+      setEmoji('');
+      setError(null);
+    },
+    [emoji, name, category, settings, onSettingsChange]
+  );
+
+  const removeActivity = useCallback(
+    (id: string) =>
+      onSettingsChange({ ...settings, activities: settings.activities.filter((activity) => activity.id !== id) }),
+    [settings, onSettingsChange]
+  );
+
+  return (
+    <>
+      <div className="space-y-3">
+        {groups.map(([groupName, activities]) => (
+          <div key={groupName} className="activity-category">
+            <div className="activity-category-title">{groupName}</div>
+            <div className="activity-chip-list">
+              {activities.map((activity) => (
+                <span key={activity.id} className="activity-settings-row">
+                  <ActivityChip activity={activity} />
+                  <IconButton
+                    icon={<X size={12} />}
+                    size="sm"
+                    onClick={() => removeActivity(activity.id)}
+                    title={`Remove ${activity.name}`}
+                    aria-label={`Remove ${activity.name}`}
+                  />
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className="activity-form">
+        <input
+          type="text"
+          value={emoji}
+          onChange={(e) => setEmoji(e.target.value)}
+          className="input-base text-center"
+          placeholder="🏷️"
+          maxLength={8}
+          aria-label="Activity emoji"
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="input-base"
+          placeholder="New activity"
+          aria-label="Activity name"
+        />
+        <input
+          type="text"
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="input-base"
+          placeholder="Category"
+          list="activity-categories"
+          aria-label="Activity category"
+        />
+        <datalist id="activity-categories">
+          {groups.map(([groupName]) => (
+            <option key={groupName} value={groupName} />
+          ))}
+        </datalist>
+        <Button type="submit" variant="secondary" className="flex-center gap-2" disabled={!name.trim()}>
+          <Plus size={16} />
+          Add
+        </Button>
+      </form>
+      {error && <p className="unlock-error mt-2">{error}</p>}
+    </>
+  );
+};
+
+// Past entries keep the values of removed trackers, so adding the tracker back under the same name restores them
+const TrackersSection: React.FC<{
+  settings: Settings;
+  onSettingsChange: (settings: Settings) => void;
+  entries: MoodEntry[];
+}> = ({ settings, onSettingsChange, entries }) => {
+  const [emoji, setEmoji] = useState('');
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<TrackerKind>('boolean');
+  const [unit, setUnit] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const streaks = useMemo(
+    () => new Map(settings.trackers.map((tracker) => [tracker.id, getTrackerStreaks(entries, tracker.id)])),
+    [entries, settings.trackers]
+  );
+
+  const handleAdd = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      const trimmedName = name.trim();
+      if (!trimmedName) return;
+      if (settings.trackers.some((tracker) => tracker.name.toLowerCase() === trimmedName.toLowerCase())) {
+        setError(`There is already a tracker called "${trimmedName}".`);
+        return;
+      }
+
+      const tracker: Tracker = {
+        id: createTrackerId(trimmedName, settings.trackers),
+        name: trimmedName,
+        emoji: emoji.trim() || '✅',
+        kind,
+        unit: kind === 'number' ? unit.trim() : '',
+      };
+      onSettingsChange({ ...settings, trackers: [...settings.trackers, tracker] });
+      setName('');
+      setEmoji('');
+      setUnit('');
+      setError(null);
+    },
+    [emoji, name, kind, unit, settings, onSettingsChange]
+  );
+
+  const removeTracker = useCallback(
+    (id: string) =>
+      onSettingsChange({
+        ...settings,
+        trackers: settings.trackers.filter((tracker) => tracker.id !== id),
+        calendarTracker: settings.calendarTracker === id ? undefined : settings.calendarTracker,
+      }),
+    [settings, onSettingsChange]
+  );
+
+  return (
+    <>
+      {settings.trackers.length === 0 ? (
+        <p className="text-sm opacity-70">Track habits, medication or anything else you want to tick off each day.</p>
+      ) : (
+        <ul className="tracker-settings-list">
+          {settings.trackers.map((tracker) => {
+            const streak = streaks.get(tracker.id);
+            return (
+              <li key={tracker.id} className="tracker-settings-row">
+                <span className="activity-chip">
+                  <span aria-hidden="true">{tracker.emoji}</span>
+                  {tracker.name}
+                </span>
+                <span className="tracker-settings-meta">
+                  {TRACKER_KINDS[tracker.kind]}
+                  {tracker.unit && ` (${tracker.unit})`}
+                  {streak && ` · streak ${streak.current} · best ${streak.longest}`}
+                </span>
+                <IconButton
+                  icon={<X size={12} />}
+                  size="sm"
+                  onClick={() => removeTracker(tracker.id)}
+                  title={`Remove ${tracker.name}`}
+                  aria-label={`Remove ${tracker.name}`}
+                />
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="activity-form">
+        <input
+          type="text"
+          value={emoji}
+          onChange={(e) => setEmoji(e.target.value)}
+          className="input-base text-center"
+          placeholder="✅"
+          maxLength={8}
+          aria-label="Tracker emoji"
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="input-base"
+          placeholder="New tracker"
+          aria-label="Tracker name"
+        />
+        <div className="flex gap-2">
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as TrackerKind)}
+            className="input-base"
+            aria-label="Tracker type"
+          >
+            {Object.entries(TRACKER_KINDS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {kind === 'number' && (
+            <input
+              type="text"
+              value={unit}
+              onChange={(e) => setUnit(e.target.value)}
+              className="input-base w-20"
+              placeholder="Unit"
+              maxLength={12}
+              aria-label="Tracker unit"
+            />
+          )}
+        </div>
+        <Button type="submit" variant="secondary" className="flex-center gap-2" disabled={!name.trim()}>
+          <Plus size={16} />
+          Add
+        </Button>
+      </form>
+      {error && <p className="unlock-error mt-2">{error}</p>}
+    </>
+  );
+};
+
+// Edits a copy of the scale, since removing a level moves the entries that use it and cannot be undone here
+const MoodScaleSection: React.FC<{
+  settings: Settings;
+  onSettingsChange: (settings: Settings) => void;
+  entries: MoodEntry[];
+  setEntries: React.Dispatch<React.SetStateAction<MoodEntry[]>>;
+  takeSnapshot: (kind: SnapshotKind) => Promise<boolean>;
+  showStatusMessage: (message: string, type?: 'success' | 'error') => void;
+}> = ({ settings, onSettingsChange, entries, setEntries, takeSnapshot, showStatusMessage }) => {
+  const [draft, setDraft] = useState<MoodLevel[]>(settings.moodScale);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(settings.moodScale);
+    setError(null);
+  }, [settings.moodScale]);
+
+  const isChanged = JSON.stringify(draft) !== JSON.stringify(settings.moodScale);
+
+  // Entries and check-ins on a level that the draft removes
+  const movedCount = useMemo(() => {
+    const removed = new Set(
+      settings.moodScale.filter((level) => !draft.some((kept) => kept.id === level.id)).map((level) => level.id)
+    );
+    return entries.filter(
+      (entry) => removed.has(entry.mood) || entry.checkIns?.some((checkIn) => removed.has(checkIn.mood))
+    ).length;
+  }, [draft, settings.moodScale, entries]);
+
+  const updateLevel = useCallback((id: string, changes: Partial<MoodLevel>) => {
+    setDraft((prev) => prev.map((level) => (level.id === id ? { ...level, ...changes } : level)));
+  }, []);
+
+  const addLevel = useCallback(() => {
+    setDraft((prev) => [
+      ...prev,
+      {
+        id: createMoodLevelId(prev),
+        name: '',
+        emoji: '',
+        color: prev[prev.length - 1]?.color ?? settings.customColors.accent,
+        value: Math.max(0, ...prev.map((level) => level.value)) + 1,
+      },
+    ]);
+  }, [settings.customColors.accent]);
+
+  const handleSave = useCallback(async () => {
+    let moodScale: MoodLevel[];
+    try {
+      moodScale = normalizeMoodScale(draft);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The mood scale is not valid.');
+      return;
+    }
+    if (movedCount > 0) {
+      if (!(await takeSnapshot('pre-scale-change'))) return;
+      setEntries((prev) => remapEntryMoods(prev, settings.moodScale, moodScale));
+    }
+    onSettingsChange({ ...settings, moodScale });
+    showStatusMessage(
+      movedCount > 0 ? `Mood scale saved. ${movedCount} entries moved to the nearest level.` : 'Mood scale saved.'
+    );
+  }, [draft, movedCount, settings, takeSnapshot, setEntries, onSettingsChange, showStatusMessage]);
+
+  return (
+    <>
+      <p className="folder-sync-detail">
+        Worst to best. The value orders the levels and is used for averages and spreadsheets.
+      </p>
+      <div className="space-y-2">
+        {draft.map((level) => (
+          <div key={level.id} className="mood-scale-row">
+            <input
+              type="color"
+              value={level.color}
+              onChange={(e) => updateLevel(level.id, { color: e.target.value })}
+              className="mood-scale-color"
+              aria-label={`Color of ${level.name || 'new level'}`}
+            />
+            <input
+              type="text"
+              value={level.emoji}
+              onChange={(e) => updateLevel(level.id, { emoji: e.target.value })}
+              className="input-base text-center"
+              placeholder="🙂"
+              maxLength={8}
+              aria-label={`Emoji of ${level.name || 'new level'}`}
+            />
+            <input
+              type="text"
+              value={level.name}
+              onChange={(e) => updateLevel(level.id, { name: e.target.value })}
+              className="input-base"
+              placeholder="Name"
+              maxLength={20}
+              aria-label="Level name"
+            />
+            <input
+              type="number"
+              value={Number.isNaN(level.value) ? '' : level.value}
+              onChange={(e) => updateLevel(level.id, { value: e.target.valueAsNumber })}
+              className="input-base"
+              aria-label={`Value of ${level.name || 'new level'}`}
+            />
+            <IconButton
+              icon={<X size={14} />}
+              size="sm"
+              onClick={() => setDraft((prev) => prev.filter((candidate) => candidate.id !== level.id))}
+              disabled={draft.length <= MIN_MOOD_LEVELS}
+              className="disabled:opacity-30"
+              title={`Remove ${level.name || 'this level'}`}
+              aria-label={`Remove ${level.name || 'this level'}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      {movedCount > 0 && (
+        <p className="folder-sync-detail mt-3">
+          {movedCount} entries use a removed level and will move to the level at the same height.
+        </p>
+      )}
+      {error && <p className="unlock-error mt-2">{error}</p>}
+
+      <div className="settings-data-section mt-3">
+        <Button
+          variant="secondary"
+          onClick={addLevel}
+          disabled={draft.length >= MAX_MOOD_LEVELS}
+          className="w-full flex-center gap-2"
+        >
+          <Plus size={16} />
+          Add Level
+        </Button>
+        <Button
+          variant="primary"
+          onClick={handleSave}
+          disabled={!isChanged}
+          accentColor={settings.customColors.accent}
+          className="w-full flex-center gap-2"
+        >
+          <Check size={16} />
+          Save Scale
+        </Button>
+      </div>
+    </>
+  );
+};
 
 export const SettingsModal: React.FC<{
   isOpen: boolean;
@@ -12,12 +893,56 @@ export const SettingsModal: React.FC<{
   entries: MoodEntry[];
   setEntries: React.Dispatch<React.SetStateAction<MoodEntry[]>>;
   onDeleteAllData: () => void;
+  onRestoreFromTrash: (trashed: TrashedEntry[]) => Promise<number>;
+  folderSync: FolderSyncControls;
+  serverSync: ServerSync;
+  webDavSync: WebDavSync;
+  onReviewSyncConflicts: () => void;
+  onPrintYearbook: () => void;
+  onShareImage: () => void;
+  isEncrypted: boolean;
+  onEnableEncryption: (passphrase: string) => Promise<void>;
+  onDisableEncryption: (passphrase: string) => Promise<void>;
+  onLock: () => void;
   showStatusMessage: (message: string, type?: 'success' | 'error') => void;
-}> = ({ isOpen, onClose, settings, onSettingsChange, entries, setEntries, onDeleteAllData, showStatusMessage }) => {
+}> = ({
+  isOpen,
+  onClose,
+  settings,
+  onSettingsChange,
+  entries,
+  setEntries,
+  onDeleteAllData,
+  onRestoreFromTrash,
+  folderSync,
+  serverSync,
+  webDavSync,
+  onReviewSyncConflicts,
+  onPrintYearbook,
+  onShareImage,
+  isEncrypted,
+  onEnableEncryption,
+  onDisableEncryption,
+  onLock,
+  showStatusMessage,
+}) => {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [showQuarantine, setShowQuarantine] = useState(false);
   const [activeColorPicker, setActiveColorPicker] = useState<string | null>(null);
   const [tempColor, setTempColor] = useState<string>('#000000');
   const [showImportConfirm, setShowImportConfirm] = useState(false);
+  const [showCsvExport, setShowCsvExport] = useState(false);
+  const [externalImport, setExternalImport] = useState<SourceTable | null>(null);
+  const [pendingImport, setPendingImport] = useState<{
+    plan: ImportPlan;
+    sourceLabel: string;
+    settings?: Settings;
+    activities?: Activity[]; // named in the file but not yet defined here
+    skipped?: number; // rows of the file that could not be read
+  } | null>(null);
+  const [passphrasePrompt, setPassphrasePrompt] = useState<{ mode: PassphraseMode; backup?: string } | null>(null);
   const [isEditingLabel, setIsEditingLabel] = useState(false);
   const [tempLabel, setTempLabel] = useState<string>('');
 
@@ -28,52 +953,261 @@ export const SettingsModal: React.FC<{
       return;
     }
 
-    const blob = new Blob([exportData(entries)], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    const today = new Date();
-    const year = today.getFullYear();
-    const month = String(today.getMonth() + 1).padStart(2, '0');
-    const day = String(today.getDate()).padStart(2, '0');
-    a.download = `moodjournal-${year}-${month}-${day}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(exportData(entries, settings), getExportFileName('txt'), 'text/plain');
     showStatusMessage(`Exported ${validEntries.length} entries.`);
-  }, [entries, showStatusMessage]);
+  }, [entries, settings, showStatusMessage]);
+
+  const handleCsvExport = useCallback(
+    (keepFormatting: boolean) => {
+      const validEntries = getValidEntries(entries);
+      setShowCsvExport(false);
+      if (validEntries.length === 0) {
+        showStatusMessage('No entries to export.', 'error');
+        return;
+      }
+
+      downloadFile(exportCsv(entries, settings, keepFormatting), getExportFileName('csv'), 'text/csv');
+      showStatusMessage(`Exported ${validEntries.length} entries to CSV.`);
+    },
+    [entries, settings, showStatusMessage]
+  );
+
+  const handleMarkdownExport = useCallback(() => {
+    const files = exportMarkdownFiles(entries, settings);
+    if (files.length === 0) {
+      showStatusMessage('No entries to export.', 'error');
+      return;
+    }
+
+    downloadFile(createZip(files), getExportFileName('zip'), 'application/zip');
+    showStatusMessage(`Exported ${files.length} entries to Markdown.`);
+  }, [entries, settings, showStatusMessage]);
+
+  const handleBackup = useCallback(async () => {
+    try {
+      const encryption = getJournalEncryption();
+      const backup = await createBackup(getValidEntries(entries), settings, encryption);
+      downloadFile(backup, getExportFileName('json'), 'application/json');
+      showStatusMessage(encryption ? 'Encrypted backup downloaded.' : 'Backup downloaded.');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Backup failed.';
+      showStatusMessage(`Backup failed: ${errorMessage}`, 'error');
+    }
+  }, [entries, settings, showStatusMessage]);
+
+  const handleConnectFolder = useCallback(async () => {
+    try {
+      await folderSync.connect();
+    } catch (error) {
+      showStatusMessage(error instanceof Error ? error.message : 'Could not open the folder.', 'error');
+    }
+  }, [folderSync, showStatusMessage]);
+
+  const handleDisconnectFolder = useCallback(async () => {
+    try {
+      await folderSync.disconnect();
+      showStatusMessage('Folder sync turned off.');
+    } catch (error) {
+      showStatusMessage(getStorageErrorMessage(error), 'error');
+    }
+  }, [folderSync, showStatusMessage]);
+
+  const handleDownloadJournalFile = useCallback(async () => {
+    try {
+      downloadFile(await folderSync.exportJournalFile(), JOURNAL_FILE_NAME, 'application/json');
+    } catch (error) {
+      showStatusMessage(error instanceof Error ? error.message : 'Download failed.', 'error');
+    }
+  }, [folderSync, showStatusMessage]);
+
+  const handleJournalFileSelect = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      if (file.size > MAX_BACKUP_IMPORT_SIZE) {
+        showStatusMessage('File too large. Please use a file smaller than 20MB.', 'error');
+        return;
+      }
+
+      try {
+        const merged = await folderSync.importJournalFile(await file.text());
+        showStatusMessage(
+          merged === 0
+            ? 'Journal is already up to date.'
+            : `Loaded ${merged} newer ${merged === 1 ? 'entry' : 'entries'}.`
+        );
+      } catch (error) {
+        showStatusMessage(error instanceof Error ? error.message : 'Load failed.', 'error');
+      }
+    },
+    [folderSync, showStatusMessage]
+  );
+
+  const importContent = useCallback(
+    async (content: string, format: ImportFormat, passphrase?: string) => {
+      if (format === 'text' || format === 'csv') {
+        const activities = createActivityResolver(settings);
+        const { entries: importedEntries, skipped } =
+          format === 'text'
+            ? { entries: importData(content, settings, activities), skipped: 0 }
+            : importCsv(content, settings, activities);
+        setPendingImport({
+          plan: planImport(entries, importedEntries),
+          sourceLabel: format === 'text' ? 'Text export' : 'CSV file',
+          activities: activities.created,
+          skipped,
+        });
+        return;
+      }
+
+      if (!passphrase && isEncryptedBackup(content)) {
+        setPassphrasePrompt({ mode: 'restore', backup: content });
+        return;
+      }
+
+      const {
+        entries: restoredEntries,
+        settings: restoredSettings,
+        rejected,
+      } = await restoreBackup(content, passphrase);
+      setPassphrasePrompt(null);
+      setPendingImport({
+        plan: planImport(entries, restoredEntries),
+        sourceLabel: 'JSON backup',
+        settings: restoredSettings,
+      });
+
+      if (rejected.length > 0) {
+        const details = rejected
+          .slice(0, 3)
+          .map((record) => `${record.date ?? `#${record.index + 1}`}: ${record.reason}`)
+          .join('; ');
+        showStatusMessage(
+          `Rejected ${rejected.length} records from the backup (${details}${rejected.length > 3 ? '; ...' : ''}).`,
+          'error'
+        );
+      }
+    },
+    [entries, settings, showStatusMessage]
+  );
+
+  const handleExternalFileSelect = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      if (file.size > MAX_BACKUP_IMPORT_SIZE) {
+        showStatusMessage('File too large. Please use a file smaller than 20MB.', 'error');
+        return;
+      }
+
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        try {
+          setExternalImport(readSourceTable(e.target?.result as string));
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Import failed.';
+          showStatusMessage(`Import failed: ${errorMessage}`, 'error');
+        }
+      };
+      reader.onerror = () => showStatusMessage('Error reading file. Please try again.', 'error');
+      reader.readAsText(file);
+    },
+    [showStatusMessage]
+  );
+
+  const handleMappedImport = useCallback(
+    (importedEntries: MoodEntry[], sourceLabel: string, skipped: number, activities: Activity[]) => {
+      setExternalImport(null);
+      if (importedEntries.length === 0) {
+        showStatusMessage('No valid entries found. Check the date column and format.', 'error');
+        return;
+      }
+      setPendingImport({ plan: planImport(entries, importedEntries), sourceLabel, activities, skipped });
+    },
+    [entries, showStatusMessage]
+  );
+
+  const takeSnapshot = useCallback(
+    async (kind: SnapshotKind): Promise<boolean> => {
+      try {
+        await createSnapshot(kind, entries, settings);
+        return true;
+      } catch (error) {
+        showStatusMessage(
+          `No restore point could be saved, so nothing was changed. ${getStorageErrorMessage(error)}`,
+          'error'
+        );
+        return false;
+      }
+    },
+    [entries, settings, showStatusMessage]
+  );
+
+  const handleConfirmImport = useCallback(
+    async (resolutions: Record<string, ImportResolution>) => {
+      if (!pendingImport) return;
+      const { plan, settings: importedSettings, activities = [] } = pendingImport;
+      if (!(await takeSnapshot('pre-import'))) return;
+
+      // Restored settings bring their own mood scale, which the entries already here are moved onto
+      setEntries((prev) => {
+        const next = applyImportPlan(prev, plan, resolutions);
+        return importedSettings ? remapEntryMoods(next, settings.moodScale, importedSettings.moodScale) : next;
+      });
+      if (importedSettings) {
+        onSettingsChange(withLocalAppLock(importedSettings, settings));
+      } else if (activities.length > 0) {
+        onSettingsChange({ ...settings, activities: [...settings.activities, ...activities] });
+      }
+
+      const changedCount =
+        plan.added.length + plan.conflicts.filter((conflict) => (resolutions[conflict.date] ?? 'mine') !== 'mine').length;
+      showStatusMessage(`Imported ${changedCount} entries${importedSettings ? ' and restored settings' : ''}.`);
+      setPendingImport(null);
+    },
+    [pendingImport, settings, takeSnapshot, setEntries, onSettingsChange, showStatusMessage]
+  );
+
+  const handleRestoreSnapshot = useCallback(
+    async (data: SnapshotData) => {
+      if (!(await takeSnapshot('pre-restore'))) return;
+      setEntries(data.entries);
+      onSettingsChange(data.settings);
+      showStatusMessage(`Restored ${data.entries.length} entries and settings.`);
+    },
+    [takeSnapshot, setEntries, onSettingsChange, showStatusMessage]
+  );
 
   const handleFileSelect = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
       if (!file) return;
 
-      if (!file.name.toLowerCase().endsWith('.txt')) {
-        showStatusMessage('Please select a .txt file.', 'error');
+      const extension = file.name.toLowerCase().split('.').pop() ?? '';
+      const format = IMPORT_FORMATS[extension];
+
+      if (!format) {
+        showStatusMessage('Please select a .txt, .csv or .json file.', 'error');
         event.target.value = '';
         return;
       }
 
-      if (file.size > 1024 * 1024) {
-        showStatusMessage('File too large. Please use a file smaller than 1MB.', 'error');
+      const isBackup = format === 'backup';
+      if (file.size > (isBackup ? MAX_BACKUP_IMPORT_SIZE : MAX_TEXT_IMPORT_SIZE)) {
+        showStatusMessage(`File too large. Please use a file smaller than ${isBackup ? '20MB' : '1MB'}.`, 'error');
         event.target.value = '';
         return;
       }
 
       const reader = new FileReader();
-      reader.onload = (e) => {
+      reader.onload = async (e) => {
         try {
           const content = e.target?.result as string;
-          const importedEntries = importData(content);
-
-          setEntries((prev) => {
-            const existingDates = new Set(importedEntries.map((e) => e.date));
-            const filtered = prev.filter((e) => !existingDates.has(e.date));
-            return [...filtered, ...importedEntries];
-          });
-
-          showStatusMessage(`Imported ${importedEntries.length} entries.`);
+          await importContent(content, format);
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Import failed.';
           showStatusMessage(`Import failed: ${errorMessage}`, 'error');
@@ -85,7 +1219,7 @@ export const SettingsModal: React.FC<{
       setShowImportConfirm(false);
       event.target.value = '';
     },
-    [setEntries, showStatusMessage]
+    [importContent, showStatusMessage]
   );
 
   const confirmImport = useCallback(() => {
@@ -93,11 +1227,58 @@ export const SettingsModal: React.FC<{
     fileInput?.click();
   }, []);
 
-  const handleDeleteAll = useCallback(() => {
-    onDeleteAllData();
+  const handleDeleteAll = useCallback(async () => {
     setShowDeleteConfirm(false);
-    showStatusMessage('All entries deleted.');
-  }, [onDeleteAllData, showStatusMessage]);
+    if (!(await takeSnapshot('pre-delete'))) return;
+    onDeleteAllData();
+  }, [takeSnapshot, onDeleteAllData]);
+
+  const handlePassphraseSubmit = useCallback(
+    async (passphrase: string) => {
+      if (!passphrasePrompt) return;
+
+      if (passphrasePrompt.mode === 'restore' && passphrasePrompt.backup) {
+        await importContent(passphrasePrompt.backup, 'backup', passphrase);
+        return;
+      }
+
+      if (passphrasePrompt.mode === 'pin') {
+        const salt = bytesToBase64(randomBytes(16));
+        onSettingsChange({
+          ...settings,
+          appLock: {
+            idleMinutes: 5,
+            lockOnHide: true,
+            ...settings.appLock,
+            salt,
+            pinHash: await hashPin(passphrase, salt),
+          },
+        });
+        showStatusMessage('PIN saved.');
+      } else if (passphrasePrompt.mode === 'enable') {
+        await onEnableEncryption(passphrase);
+        showStatusMessage('Journal encrypted. Keep your passphrase safe.');
+      } else {
+        await onDisableEncryption(passphrase);
+        showStatusMessage('Encryption turned off.');
+      }
+      setPassphrasePrompt(null);
+    },
+    [passphrasePrompt, importContent, settings, onSettingsChange, onEnableEncryption, onDisableEncryption, showStatusMessage]
+  );
+
+  const updateAppLock = useCallback(
+    (changes: Partial<AppLockSettings>) => {
+      if (!settings.appLock) return;
+      onSettingsChange({ ...settings, appLock: { ...settings.appLock, ...changes } });
+    },
+    [settings, onSettingsChange]
+  );
+
+  const removePin = useCallback(() => {
+    onSettingsChange({ ...settings, appLock: undefined });
+    showStatusMessage('PIN removed.');
+  }, [settings, onSettingsChange, showStatusMessage]);
 
   const updateColor = useCallback(
     (colorKey: string, color: string) => {
@@ -106,13 +1287,15 @@ export const SettingsModal: React.FC<{
           ...settings,
           customColors: { ...settings.customColors, [colorKey]: color },
         });
+      } else if (colorKey === NO_MOOD) {
+        onSettingsChange({
+          ...settings,
+          customColors: { ...settings.customColors, noMood: color },
+        });
       } else {
         onSettingsChange({
           ...settings,
-          customColors: {
-            ...settings.customColors,
-            moods: { ...settings.customColors.moods, [colorKey]: color },
-          },
+          moodScale: settings.moodScale.map((level) => (level.id === colorKey ? { ...level, color } : level)),
         });
       }
     },
@@ -136,11 +1319,15 @@ export const SettingsModal: React.FC<{
     });
   }, [settings, onSettingsChange]);
 
+  // Levels of the default scale get their colors and names back; added levels keep theirs
   const resetTheme = useCallback(() => {
     onSettingsChange({
       ...settings,
       customColors: DEFAULT_SETTINGS.customColors,
-      customLabels: DEFAULT_SETTINGS.customLabels,
+      moodScale: settings.moodScale.map((level) => {
+        const defaults = DEFAULT_MOOD_SCALE.find((candidate) => candidate.id === level.id);
+        return defaults ? { ...level, name: defaults.name, color: defaults.color } : level;
+      }),
       backgroundImage: undefined,
       backgroundColor: undefined,
     });
@@ -154,15 +1341,14 @@ export const SettingsModal: React.FC<{
           ? settings.backgroundColor || settings.customColors.base
           : colorKey === 'base' || colorKey === 'accent' || colorKey === 'text'
           ? (settings.customColors[colorKey as keyof typeof settings.customColors] as string)
-          : settings.customColors.moods[colorKey as keyof typeof settings.customColors.moods];
+          : getMoodColor(colorKey, settings);
 
       setTempColor(currentColor);
       setActiveColorPicker(colorKey);
       setIsEditingLabel(false);
 
-      if (colorKey !== 'background' && colorKey !== 'base' && colorKey !== 'accent' && colorKey !== 'text') {
-        setTempLabel(settings.customLabels[colorKey as MoodColor]);
-      }
+      const level = getMoodLevel(colorKey, settings);
+      if (level) setTempLabel(level.name);
     },
     [settings]
   );
@@ -227,24 +1413,27 @@ export const SettingsModal: React.FC<{
       accent: 'Accent',
       text: 'Text',
     };
-    return titles[activeColorPicker] || settings.customLabels[activeColorPicker as MoodColor];
-  }, [activeColorPicker, settings.customLabels]);
+    return titles[activeColorPicker] || getMoodLabel(activeColorPicker, settings);
+  }, [activeColorPicker, settings]);
+
+  // Only the levels of the mood scale have a name to edit
+  const isLabelEditable = !!activeColorPicker && !!getMoodLevel(activeColorPicker, settings);
 
   const updateLabel = useCallback(
-    (moodKey: MoodColor, label: string) => {
+    (moodKey: MoodColor, name: string) => {
       onSettingsChange({
         ...settings,
-        customLabels: { ...settings.customLabels, [moodKey]: label },
+        moodScale: settings.moodScale.map((level) => (level.id === moodKey ? { ...level, name } : level)),
       });
     },
     [settings, onSettingsChange]
   );
 
   const handleLabelClick = useCallback(() => {
-    if (activeColorPicker && activeColorPicker !== 'background' && activeColorPicker !== 'base' && activeColorPicker !== 'accent' && activeColorPicker !== 'text') {
+    if (isLabelEditable) {
       setIsEditingLabel(true);
     }
-  }, [activeColorPicker]);
+  }, [isLabelEditable]);
 
   const handleLabelSubmit = useCallback(() => {
     if (activeColorPicker && tempLabel.trim()) {
@@ -259,10 +1448,10 @@ export const SettingsModal: React.FC<{
     } else if (e.key === 'Escape') {
       setIsEditingLabel(false);
       if (activeColorPicker) {
-        setTempLabel(settings.customLabels[activeColorPicker as MoodColor]);
+        setTempLabel(getMoodLabel(activeColorPicker, settings));
       }
     }
-  }, [handleLabelSubmit, activeColorPicker, settings.customLabels]);
+  }, [handleLabelSubmit, activeColorPicker, settings]);
 
   return (
     <>
@@ -323,18 +1512,234 @@ export const SettingsModal: React.FC<{
             </div>
 
             <div className="color-grid-moods">
-              {Object.entries(settings.customColors.moods).map(([mood, color]) => (
+              {getMoodOptions(settings).map((mood) => (
                 <button
                   key={mood}
                   onClick={() => openColorPicker(mood)}
                   className="color-button-mood"
-                  style={{ backgroundColor: color }}
-                  title={settings.customLabels[mood as MoodColor]}
+                  style={{ backgroundColor: getMoodColor(mood, settings) }}
+                  title={getMoodLabel(mood, settings)}
                 />
               ))}
             </div>
           </div>
 
+          <div className="settings-section">
+            <h3 className="section-title mb-3">Mood Scale</h3>
+            <MoodScaleSection
+              settings={settings}
+              onSettingsChange={onSettingsChange}
+              entries={entries}
+              setEntries={setEntries}
+              takeSnapshot={takeSnapshot}
+              showStatusMessage={showStatusMessage}
+            />
+          </div>
+
+          <div className="settings-section">
+            <h3 className="section-title mb-3">Check-ins</h3>
+            <div className="privacy-options">
+              <label className="privacy-option">
+                Calendar color of a day
+                <select
+                  value={settings.dayMoodRule ?? 'latest'}
+                  onChange={(e) => onSettingsChange({ ...settings, dayMoodRule: e.target.value as DayMoodRule })}
+                  className="mapping-select"
+                >
+                  {Object.entries(DAY_MOOD_RULES).map(([rule, label]) => (
+                    <option key={rule} value={rule}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
+
+          <div className="settings-section">
+            <h3 className="section-title mb-3">Activities</h3>
+            <ActivitiesSection settings={settings} onSettingsChange={onSettingsChange} />
+          </div>
+
+          <div className="settings-section">
+            <h3 className="section-title mb-3">Trackers</h3>
+            <TrackersSection settings={settings} onSettingsChange={onSettingsChange} entries={entries} />
+          </div>
+
+          <div className="settings-section">
+            <h3 className="section-title mb-3">Privacy</h3>
+
+            <p className="privacy-status">
+              {isEncrypted ? <ShieldCheck size={16} /> : <Unlock size={16} />}
+              {isEncrypted ? 'Entries are encrypted on this device.' : 'Entries are stored unencrypted.'}
+            </p>
+
+            <div className="settings-data-section">
+              {isEncrypted ? (
+                <>
+                  <Button variant="secondary" onClick={onLock} className="w-full flex-center gap-2">
+                    <Lock size={16} />
+                    Lock Now
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    onClick={() => setPassphrasePrompt({ mode: 'disable' })}
+                    className="w-full flex-center gap-2"
+                  >
+                    <Unlock size={16} />
+                    Turn Off Encryption
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  variant="secondary"
+                  onClick={() => setPassphrasePrompt({ mode: 'enable' })}
+                  className="w-full flex-center gap-2"
+                >
+                  <ShieldCheck size={16} />
+                  Encrypt Journal
+                </Button>
+              )}
+
+              <Button
+                variant="secondary"
+                onClick={() => setPassphrasePrompt({ mode: 'pin' })}
+                className="w-full flex-center gap-2"
+              >
+                <KeyRound size={16} />
+                {settings.appLock ? 'Change PIN' : 'Set PIN Lock'}
+              </Button>
+
+              {settings.appLock && (
+                <Button variant="secondary" onClick={removePin} className="w-full flex-center gap-2">
+                  <Trash2 size={16} />
+                  Remove PIN
+                </Button>
+              )}
+            </div>
+
+            {settings.appLock && (
+              <div className="privacy-options">
+                <label className="privacy-option">
+                  Lock after inactivity
+                  <select
+                    value={settings.appLock.idleMinutes}
+                    onChange={(e) => updateAppLock({ idleMinutes: Number(e.target.value) })}
+                    className="mapping-select"
+                  >
+                    {IDLE_LOCK_OPTIONS.map(({ minutes, label }) => (
+                      <option key={minutes} value={minutes}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="privacy-option">
+                  Lock when the app is hidden
+                  <input
+                    type="checkbox"
+                    checked={settings.appLock.lockOnHide}
+                    onChange={(e) => updateAppLock({ lockOnHide: e.target.checked })}
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+
+          <div className="settings-section">
+            <h3 className="section-title mb-3">Folder Sync</h3>
+
+            {folderSync.isSupported ? (
+              <>
+                <p className="privacy-status">
+                  <FolderSync size={16} />
+                  {folderSync.folderName
+                    ? `Syncing ${JOURNAL_FILE_NAME} in "${folderSync.folderName}".`
+                    : `Keep a copy of your journal as ${JOURNAL_FILE_NAME} in a folder you choose.`}
+                </p>
+                {folderSync.folderName && (
+                  <p className="folder-sync-detail">
+                    {folderSync.needsPermission
+                      ? 'Allow access to the folder again to resume syncing.'
+                      : folderSync.isSyncing
+                        ? 'Syncing...'
+                        : folderSync.lastSyncedAt
+                          ? `Last synced ${new Date(folderSync.lastSyncedAt).toLocaleString()}.`
+                          : 'Not synced yet.'}
+                  </p>
+                )}
+
+                <div className="settings-data-section">
+                  {folderSync.folderName ? (
+                    <>
+                      <Button
+                        variant="secondary"
+                        onClick={folderSync.syncNow}
+                        disabled={folderSync.isSyncing}
+                        className="w-full flex-center gap-2"
+                      >
+                        <RefreshCw size={16} />
+                        {folderSync.needsPermission ? 'Allow Access' : 'Sync Now'}
+                      </Button>
+                      <Button variant="secondary" onClick={handleDisconnectFolder} className="w-full flex-center gap-2">
+                        <Trash2 size={16} />
+                        Stop Syncing
+                      </Button>
+                    </>
+                  ) : (
+                    <Button variant="secondary" onClick={handleConnectFolder} className="w-full flex-center gap-2">
+                      <FolderSync size={16} />
+                      Choose Folder
+                    </Button>
+                  )}
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="folder-sync-detail">
+                  This browser cannot write to folders. Download {JOURNAL_FILE_NAME} into your synced folder, and load
+                  it back to pick up newer entries from other devices.
+                </p>
+
+                <div className="settings-data-section">
+                  <Button variant="secondary" onClick={handleDownloadJournalFile} className="w-full flex-center gap-2">
+                    <Download size={16} />
+                    Download Journal File
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    onClick={() => document.getElementById('journal-file-input')?.click()}
+                    className="w-full flex-center gap-2"
+                  >
+                    <Upload size={16} />
+                    Load Journal File
+                  </Button>
+                  <input
+                    id="journal-file-input"
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleJournalFileSelect}
+                    className="hidden"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="settings-section">
+            <h3 className="section-title mb-3">Sync Server</h3>
+            <ServerSyncSection serverSync={serverSync} showStatusMessage={showStatusMessage} />
+          </div>
+
+          <div className="settings-section">
+            <h3 className="section-title mb-3">WebDAV</h3>
+            <WebDavSection
+              webDavSync={webDavSync}
+              onReviewConflicts={onReviewSyncConflicts}
+              showStatusMessage={showStatusMessage}
+            />
+          </div>
+
           <div className="settings-section">
             <h3 className="section-title mb-3">Data Management</h3>
 
@@ -344,22 +1749,76 @@ export const SettingsModal: React.FC<{
                 Export Data
               </Button>
 
+              <Button variant="secondary" onClick={handleBackup} className="w-full flex-center gap-2">
+                <Archive size={16} />
+                Backup (JSON)
+              </Button>
+
+              <Button variant="secondary" onClick={() => setShowCsvExport(true)} className="w-full flex-center gap-2">
+                <Table size={16} />
+                Export CSV
+              </Button>
+
+              <Button variant="secondary" onClick={handleMarkdownExport} className="w-full flex-center gap-2">
+                <FileText size={16} />
+                Export Markdown (.zip)
+              </Button>
+
+              <Button variant="secondary" onClick={onPrintYearbook} className="w-full flex-center gap-2">
+                <Printer size={16} />
+                Print Yearbook
+              </Button>
+
+              <Button variant="secondary" onClick={onShareImage} className="w-full flex-center gap-2">
+                <Grid3x3 size={16} />
+                Mood Image
+              </Button>
+
               <Button variant="secondary" onClick={() => setShowImportConfirm(true)} className="w-full flex-center gap-2">
                 <Upload size={16} />
                 Import Data
               </Button>
 
+              <Button
+                variant="secondary"
+                onClick={() => document.getElementById('external-import-input')?.click()}
+                className="w-full flex-center gap-2"
+              >
+                <FileInput size={16} />
+                Import from Other App
+              </Button>
+
+              <input
+                id="external-import-input"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleExternalFileSelect}
+                className="hidden"
+              />
+
               <input
                 id="import-file-input"
                 type="file"
-                accept=".txt"
+                accept=".txt,.csv,.json"
                 onChange={handleFileSelect}
                 className="hidden"
               />
             </div>
           </div>
 
-          <div className="settings-section">
+          <div className="settings-section settings-data-section">
+            <Button variant="secondary" onClick={() => setShowSnapshots(true)} className="w-full flex-center gap-2">
+              <History size={16} />
+              Restore Points
+            </Button>
+            <Button variant="secondary" onClick={() => setShowTrash(true)} className="w-full flex-center gap-2">
+              <ArchiveRestore size={16} />
+              Trash
+            </Button>
+            <Button variant="secondary" onClick={() => setShowQuarantine(true)} className="w-full flex-center gap-2">
+              <ShieldAlert size={16} />
+              Quarantine
+            </Button>
             <Button
               variant="primary"
               onClick={() => setShowDeleteConfirm(true)}
@@ -393,7 +1852,7 @@ export const SettingsModal: React.FC<{
             <div
               className="color-picker-subtitle"
               onClick={handleLabelClick}
-              style={{ cursor: activeColorPicker && activeColorPicker !== 'background' && activeColorPicker !== 'base' && activeColorPicker !== 'accent' && activeColorPicker !== 'text' ? 'pointer' : 'default' }}
+              style={{ cursor: isLabelEditable ? 'pointer' : 'default' }}
             >
               {colorPickerTitle}
             </div>
@@ -447,8 +1906,8 @@ export const SettingsModal: React.FC<{
           <div className="confirm-modal-icon">⚠️</div>
           <h3 className="confirm-modal-title">Delete All Data?</h3>
           <p className="confirm-modal-description">
-            All your entries will be permanently deleted from this device. This action cannot be undone (make sure to
-            export a backup)!
+            All your entries will be moved to the trash. You can restore them from Trash until they expire or the trash
+            is emptied.
           </p>
         </div>
 
@@ -470,10 +1929,10 @@ export const SettingsModal: React.FC<{
       <Modal isOpen={showImportConfirm} onClose={() => setShowImportConfirm(false)} size="md" showCloseButton={false}>
         <div className="confirm-modal-content">
           <div className="confirm-modal-icon">📁</div>
-          <h3 className="confirm-modal-title">Import .TXT File?</h3>
+          <h3 className="confirm-modal-title">Import Data?</h3>
           <p className="confirm-modal-description">
-            Select a .txt file from this device. Entries with the same date will be replaced. This action cannot be
-            undone.
+            Select a .txt export, a .csv spreadsheet or a .json backup from this device. You can review new and conflicting dates before
+            anything is written.
           </p>
         </div>
 
@@ -486,6 +1945,93 @@ export const SettingsModal: React.FC<{
           </Button>
         </div>
       </Modal>
+
+      <Modal isOpen={showCsvExport} onClose={() => setShowCsvExport(false)} size="md" showCloseButton={false}>
+        <div className="confirm-modal-content">
+          <div className="confirm-modal-icon">📊</div>
+          <h3 className="confirm-modal-title">Export CSV</h3>
+          <p className="confirm-modal-description">
+            Keep bold, italic and underline as &lt;b&gt;, &lt;i&gt; and &lt;u&gt; tags in the diary column, or export
+            plain text?
+          </p>
+        </div>
+
+        <div className="modal-footer">
+          <Button variant="secondary" onClick={() => handleCsvExport(true)} className="flex-1">
+            Keep Tags
+          </Button>
+          <Button
+            variant="primary"
+            onClick={() => handleCsvExport(false)}
+            accentColor={settings.customColors.accent}
+            className="flex-1"
+          >
+            Plain Text
+          </Button>
+        </div>
+      </Modal>
+
+      {externalImport && (
+        <ImportMapping
+          isOpen={!!externalImport}
+          table={externalImport}
+          onCancel={() => setExternalImport(null)}
+          onConfirm={handleMappedImport}
+          settings={settings}
+        />
+      )}
+
+      {showTrash && (
+        <Trash
+          isOpen={showTrash}
+          onClose={() => setShowTrash(false)}
+          settings={settings}
+          onSettingsChange={onSettingsChange}
+          onRestore={onRestoreFromTrash}
+          showStatusMessage={showStatusMessage}
+        />
+      )}
+
+      {showSnapshots && (
+        <Snapshots
+          isOpen={showSnapshots}
+          onClose={() => setShowSnapshots(false)}
+          settings={settings}
+          onRestore={handleRestoreSnapshot}
+          showStatusMessage={showStatusMessage}
+        />
+      )}
+
+      {showQuarantine && (
+        <Quarantine
+          isOpen={showQuarantine}
+          onClose={() => setShowQuarantine(false)}
+          settings={settings}
+          showStatusMessage={showStatusMessage}
+        />
+      )}
+
+      {passphrasePrompt && (
+        <PassphraseModal
+          mode={passphrasePrompt.mode}
+          onCancel={() => setPassphrasePrompt(null)}
+          onSubmit={handlePassphraseSubmit}
+          settings={settings}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportPreview
+          isOpen={!!pendingImport}
+          plan={pendingImport.plan}
+          sourceLabel={pendingImport.sourceLabel}
+          settingChanges={pendingImport.settings && getRestoredSettingChanges(settings, pendingImport.settings)}
+          skipped={pendingImport.skipped}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={handleConfirmImport}
+          settings={settings}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,144 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Download, Share2 } from 'lucide-react';
+import { MoodEntry, Settings, MONTH_NAMES } from './types';
+import { Modal, Button } from './components';
+import { renderMoodPixels, canvasToBlob, PixelsOptions } from './pixels';
+import { downloadFile } from './utils';
+
+export const ShareImage: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  initialDate: Date;
+  entries: MoodEntry[];
+  settings: Settings;
+  showStatusMessage: (message: string, type?: 'success' | 'error') => void;
+}> = ({ isOpen, onClose, initialDate, entries, settings, showStatusMessage }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [range, setRange] = useState<'year' | 'month'>('year');
+  const [year, setYear] = useState(initialDate.getFullYear());
+  const [month, setMonth] = useState(initialDate.getMonth());
+  const [shape, setShape] = useState<PixelsOptions['shape']>('square');
+  const [showFuture, setShowFuture] = useState(false);
+
+  const canShare = typeof navigator !== 'undefined' && typeof navigator.canShare === 'function';
+
+  useEffect(() => {
+    if (!isOpen || !canvasRef.current) return;
+    try {
+      renderMoodPixels(canvasRef.current, entries, settings, {
+        year,
+        month: range === 'month' ? month : undefined,
+        shape,
+        showFuture,
+      });
+    } catch (error) {
+      showStatusMessage(error instanceof Error ? error.message : 'Failed to draw image', 'error');
+    }
+  }, [isOpen, entries, settings, range, year, month, shape, showFuture, showStatusMessage]);
+
+  const fileName =
+    range === 'year' ? `moodjournal-${year}.png` : `moodjournal-${year}-${String(month + 1).padStart(2, '0')}.png`;
+
+  const handleDownload = useCallback(async () => {
+    if (!canvasRef.current) return;
+    try {
+      downloadFile(await canvasToBlob(canvasRef.current), fileName, 'image/png');
+    } catch (error) {
+      showStatusMessage(error instanceof Error ? error.message : 'Download failed', 'error');
+    }
+  }, [fileName, showStatusMessage]);
+
+  const handleShare = useCallback(async () => {
+    if (!canvasRef.current) return;
+    try {
+      const file = new File([await canvasToBlob(canvasRef.current)], fileName, { type: 'image/png' });
+      if (!navigator.canShare({ files: [file] })) {
+        showStatusMessage('Sharing images is not supported on this device.', 'error');
+        return;
+      }
+      await navigator.share({ files: [file], title: 'My moods' });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      showStatusMessage(error instanceof Error ? error.message : 'Share failed', 'error');
+    }
+  }, [fileName, showStatusMessage]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg" title="Mood Image">
+      <div className="space-responsive-md">
+        <div className="share-options">
+          <div className="import-resolution-group">
+            {(['year', 'month'] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setRange(value)}
+                className={`import-resolution-button ${range === value ? 'import-resolution-active' : ''}`}
+              >
+                {value === 'year' ? 'Year' : 'Month'}
+              </button>
+            ))}
+          </div>
+
+          <div className="import-resolution-group">
+            {(['square', 'circle'] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setShape(value)}
+                className={`import-resolution-button ${shape === value ? 'import-resolution-active' : ''}`}
+              >
+                {value === 'square' ? 'Squares' : 'Circles'}
+              </button>
+            ))}
+          </div>
+
+          <input
+            type="number"
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value) || year)}
+            className="mapping-select w-24"
+            aria-label="Year"
+          />
+
+          {range === 'month' && (
+            <select value={month} onChange={(e) => setMonth(Number(e.target.value))} className="mapping-select">
+              {MONTH_NAMES.map((name, index) => (
+                <option key={name} value={index}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <label className="share-checkbox">
+            <input type="checkbox" checked={showFuture} onChange={(e) => setShowFuture(e.target.checked)} />
+            Show future days
+          </label>
+        </div>
+
+        <div className="share-preview">
+          <canvas ref={canvasRef} className="share-canvas" />
+        </div>
+      </div>
+
+      <div className="modal-footer mt-6">
+        <Button variant="secondary" onClick={handleDownload} className="flex-1 flex-center gap-2">
+          <Download size={16} />
+          Download PNG
+        </Button>
+        {canShare && (
+          <Button
+            variant="primary"
+            onClick={handleShare}
+            accentColor={settings.customColors.accent}
+            className="flex-1 flex-center gap-2"
+          >
+            <Share2 size={16} />
+            Share
+          </Button>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Download, RotateCcw } from 'lucide-react';
+import { Settings } from './types';
+import { Modal, Button, IconButton } from './components';
+import {
+  SnapshotInfo,
+  SnapshotKind,
+  SnapshotData,
+  loadSnapshots,
+  loadSnapshotData,
+  getJournalEncryption,
+} from './storage';
+import { createBackup, downloadFile, formatDate } from './utils';
+
+const SNAPSHOT_LABELS: Record<SnapshotKind, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  'pre-import': 'Before import',
+  'pre-delete': 'Before delete',
+  'pre-restore': 'Before restore',
+  'pre-scale-change': 'Before mood scale change',
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const SnapshotRow: React.FC<{
+  snapshot: SnapshotInfo;
+  onRestore: (snapshot: SnapshotInfo) => void;
+  onDownload: (snapshot: SnapshotInfo) => void;
+}> = React.memo(({ snapshot, onRestore, onDownload }) => (
+  <div className="trash-row">
+    <div className="trash-row-body">
+      <div className="trash-row-date">
+        {new Date(snapshot.createdAt).toLocaleString()}
+        <span className="snapshot-kind">{SNAPSHOT_LABELS[snapshot.kind]}</span>
+      </div>
+      <div className="trash-row-meta">
+        {snapshot.entryCount} {snapshot.entryCount === 1 ? 'entry' : 'entries'} · {formatSize(snapshot.size)}
+      </div>
+    </div>
+    <IconButton icon={<Download size={16} />} size="sm" onClick={() => onDownload(snapshot)} title="Download" />
+    <IconButton icon={<RotateCcw size={16} />} size="sm" onClick={() => onRestore(snapshot)} title="Restore" />
+  </div>
+));
+
+export const Snapshots: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  settings: Settings;
+  onRestore: (data: SnapshotData) => Promise<void>;
+  showStatusMessage: (message: string, type?: 'success' | 'error') => void;
+}> = ({ isOpen, onClose, settings, onRestore, showStatusMessage }) => {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<SnapshotInfo | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadSnapshots()
+      .then(setSnapshots)
+      .catch((error) => {
+        showStatusMessage(error instanceof Error ? error.message : 'Could not load restore points.', 'error');
+        setSnapshots([]);
+      });
+  }, [isOpen, showStatusMessage]);
+
+  const handleDownload = useCallback(
+    async (snapshot: SnapshotInfo) => {
+      try {
+        const data = await loadSnapshotData(snapshot.id);
+        const backup = await createBackup(data.entries, data.settings, getJournalEncryption());
+        const fileName = `moodjournal-snapshot-${formatDate(new Date(snapshot.createdAt))}.json`;
+        downloadFile(backup, fileName, 'application/json');
+      } catch (error) {
+        showStatusMessage(error instanceof Error ? error.message : 'Download failed.', 'error');
+      }
+    },
+    [showStatusMessage]
+  );
+
+  const handleConfirmRestore = useCallback(async () => {
+    if (!pendingRestore) return;
+    try {
+      await onRestore(await loadSnapshotData(pendingRestore.id));
+      onClose();
+    } catch (error) {
+      showStatusMessage(error instanceof Error ? error.message : 'Restore failed.', 'error');
+    }
+    setPendingRestore(null);
+  }, [pendingRestore, onRestore, onClose, showStatusMessage]);
+
+  return (
+    <>
+      <Modal isOpen={isOpen} onClose={onClose} size="lg" title="Restore Points">
+        <p className="text-sm opacity-70 mb-4">
+          Copies of your entries and settings are kept daily, weekly, and before every import, restore or
+          &quot;Delete All&quot;.
+        </p>
+        <div className="trash-list">
+          {snapshots === null ? (
+            <p className="text-center opacity-60 py-6">Loading...</p>
+          ) : snapshots.length === 0 ? (
+            <p className="text-center opacity-60 py-6">No restore points yet.</p>
+          ) : (
+            snapshots.map((snapshot) => (
+              <SnapshotRow
+                key={snapshot.id}
+                snapshot={snapshot}
+                onRestore={setPendingRestore}
+                onDownload={handleDownload}
+              />
+            ))
+          )}
+        </div>
+      </Modal>
+
+      <Modal isOpen={!!pendingRestore} onClose={() => setPendingRestore(null)} size="md" showCloseButton={false}>
+        <div className="confirm-modal-content">
+          <div className="confirm-modal-icon">⏪</div>
+          <h3 className="confirm-modal-title">Restore this point?</h3>
+          <p className="confirm-modal-description">
+            Your entries and settings will be replaced with the copy from{' '}
+            {pendingRestore && new Date(pendingRestore.createdAt).toLocaleString()}. The current state is saved as a
+            restore point first.
+          </p>
+        </div>
+
+        <div className="modal-footer">
+          <Button variant="secondary" onClick={() => setPendingRestore(null)} className="flex-1">
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleConfirmRestore}
+            accentColor={settings.customColors.accent}
+            className="flex-1"
+          >
+            Restore
+          </Button>
+        </div>
+      </Modal>
+    </>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useState, useMemo } from 'react';
+import { MoodEntry, Settings, MetricKey, MONTH_NAMES, METRICS, METRIC_KEYS } from './types';
+import { Modal } from './components';
+import { StatsPoint, computeStats, formatMetric } from './utils';
+
+const METRIC_COLORS: Record<MetricKey, string> = {
+  energy: '#f59e0b',
+  anxiety: '#ef4444',
+  sleep: '#6366f1',
+};
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+
+// Every series is scaled to its own range, so moods and sleep hours share one chart
+const TrendChart: React.FC<{
+  trend: StatsPoint[];
+  settings: Settings;
+}> = React.memo(({ trend, settings }) => {
+  const scores = settings.moodScale.map((level) => level.value);
+  const moodRange = { min: Math.min(...scores), max: Math.max(...scores) };
+  const series = [
+    { key: 'mood', color: settings.customColors.accent, range: moodRange, values: trend.map((point) => point.mood) },
+    ...METRIC_KEYS.map((key) => ({
+      key,
+      color: METRIC_COLORS[key],
+      range: METRICS[key],
+      values: trend.map((point) => point.metrics[key]),
+    })),
+  ];
+
+  const step = CHART_WIDTH / Math.max(trend.length - 1, 1);
+  const toY = (value: number, range: { min: number; max: number }): number =>
+    CHART_HEIGHT - ((value - range.min) / (range.max - range.min || 1)) * CHART_HEIGHT;
+
+  // Periods without a value break the line instead of dropping to zero
+  const toPath = (values: (number | null)[], range: { min: number; max: number }): string =>
+    values
+      .map((value, index) => {
+        if (value === null) return '';
+        const command = index > 0 && values[index - 1] !== null ? 'L' : 'M';
+        return `${command}${(index * step).toFixed(1)},${toY(value, range).toFixed(1)}`;
+      })
+      .join(' ');
+
+  return (
+    <svg viewBox={`-6 -6 ${CHART_WIDTH + 12} ${CHART_HEIGHT + 12}`} className="stats-chart" role="img">
+      {series.map(({ key, color, range, values }) => (
+        <g key={key} stroke={color} fill={color}>
+          <path d={toPath(values, range)} fill="none" strokeWidth={2} strokeLinejoin="round" />
+          {values.map(
+            (value, index) => value !== null && <circle key={index} cx={index * step} cy={toY(value, range)} r={3} />
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+});
+
+export const Stats: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  initialDate: Date;
+  entries: MoodEntry[];
+  settings: Settings;
+}> = ({ isOpen, onClose, initialDate, entries, settings }) => {
+  const [range, setRange] = useState<'year' | 'month'>('month');
+  const [year, setYear] = useState(initialDate.getFullYear());
+  const [month, setMonth] = useState(initialDate.getMonth());
+
+  const stats = useMemo(
+    () => computeStats(entries, settings, year, range === 'month' ? month : undefined),
+    [entries, settings, year, month, range]
+  );
+  const maxCount = Math.max(...stats.distribution.map(({ count }) => count), 1);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg" title="Stats">
+      <div className="space-responsive-md">
+        <div className="share-options">
+          <div className="import-resolution-group">
+            {(['year', 'month'] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setRange(value)}
+                className={`import-resolution-button ${range === value ? 'import-resolution-active' : ''}`}
+              >
+                {value === 'year' ? 'Year' : 'Month'}
+              </button>
+            ))}
+          </div>
+
+          <input
+            type="number"
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value) || year)}
+            className="mapping-select w-24"
+            aria-label="Year"
+          />
+
+          {range === 'month' && (
+            <select value={month} onChange={(e) => setMonth(Number(e.target.value))} className="mapping-select">
+              {MONTH_NAMES.map((name, index) => (
+                <option key={name} value={index}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {stats.dayCount === 0 ? (
+          <p className="text-center opacity-60 py-6">No entries in this {range}.</p>
+        ) : (
+          <>
+            <div className="stats-summary">
+              <span className="activity-chip">
+                {stats.dayCount} {stats.dayCount === 1 ? 'day' : 'days'}
+              </span>
+              {stats.mood !== null && (
+                <span className="activity-chip" style={{ color: settings.customColors.accent }}>
+                  Mood {stats.mood.toFixed(1)}
+                </span>
+              )}
+              {METRIC_KEYS.map((key) => {
+                const value = stats.metrics[key];
+                if (value === null) return null;
+                return (
+                  <span key={key} className="activity-chip" style={{ color: METRIC_COLORS[key] }}>
+                    {METRICS[key].label} {formatMetric(key, Math.round(value * 10) / 10)}
+                  </span>
+                );
+              })}
+            </div>
+
+            <div className="stats-distribution">
+              {stats.distribution.map(({ level, count }) => (
+                <div key={level.id} className="stats-bar-row">
+                  <span className="stats-bar-label">
+                    {level.emoji} {level.name}
+                  </span>
+                  <div className="stats-bar-track">
+                    <div
+                      className="stats-bar"
+                      style={{ width: `${(count / maxCount) * 100}%`, backgroundColor: level.color }}
+                    />
+                  </div>
+                  <span className="stats-bar-count">{count}</span>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <TrendChart trend={stats.trend} settings={settings} />
+              <div className="stats-chart-axis">
+                <span>{stats.trend[0].label}</span>
+                <span>{stats.trend[stats.trend.length - 1].label}</span>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { Settings, DEFAULT_TRASH_RETENTION_DAYS } from './types';
+import { Modal, Button, IconButton } from './components';
+import { TrashedEntry, loadTrash, deleteFromTrash, emptyTrash } from './storage';
+import { parseDate, formatDisplayDate, stripFormattingTags, getMoodColor } from './utils';
+
+const RETENTION_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Until emptied' },
+];
+
+const TrashRow: React.FC<{
+  item: TrashedEntry;
+  onRestore: (item: TrashedEntry) => void;
+  onPurge: (item: TrashedEntry) => void;
+  settings: Settings;
+}> = React.memo(({ item, onRestore, onPurge, settings }) => (
+  <div className="trash-row">
+    <span className="import-mood-dot" style={{ backgroundColor: getMoodColor(item.entry.mood, settings) }} />
+    <div className="trash-row-body">
+      <div className="trash-row-date">{formatDisplayDate(parseDate(item.entry.date))}</div>
+      <div className="trash-row-meta">
+        Deleted {new Date(item.deletedAt).toLocaleString()}
+        {item.entry.diary && ` · ${stripFormattingTags(item.entry.diary).slice(0, 60)}`}
+      </div>
+    </div>
+    <IconButton icon={<RotateCcw size={16} />} size="sm" onClick={() => onRestore(item)} title="Restore" />
+    <IconButton icon={<Trash2 size={16} />} size="sm" onClick={() => onPurge(item)} title="Delete forever" />
+  </div>
+));
+
+export const Trash: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  settings: Settings;
+  onSettingsChange: (settings: Settings) => void;
+  onRestore: (trashed: TrashedEntry[]) => Promise<number>;
+  showStatusMessage: (message: string, type?: 'success' | 'error') => void;
+}> = ({ isOpen, onClose, settings, onSettingsChange, onRestore, showStatusMessage }) => {
+  const [items, setItems] = useState<TrashedEntry[] | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await loadTrash());
+    } catch (error) {
+      showStatusMessage(error instanceof Error ? error.message : 'Could not open the trash.', 'error');
+      setItems([]);
+    }
+  }, [showStatusMessage]);
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refresh]);
+
+  const handleRestore = useCallback(
+    async (trashed: TrashedEntry[]) => {
+      try {
+        const restored = await onRestore(trashed);
+        showStatusMessage(
+          restored === trashed.length
+            ? `Restored ${restored} ${restored === 1 ? 'entry' : 'entries'}.`
+            : `Restored ${restored} of ${trashed.length}. Dates that already have an entry were left in the trash.`,
+          restored === trashed.length ? 'success' : 'error'
+        );
+      } catch (error) {
+        showStatusMessage(error instanceof Error ? error.message : 'Restore failed.', 'error');
+      }
+      refresh();
+    },
+    [onRestore, refresh, showStatusMessage]
+  );
+
+  const handlePurge = useCallback(
+    async (item: TrashedEntry) => {
+      try {
+        await deleteFromTrash([item.id]);
+      } catch (error) {
+        showStatusMessage(error instanceof Error ? error.message : 'Delete failed.', 'error');
+      }
+      refresh();
+    },
+    [refresh, showStatusMessage]
+  );
+
+  const handleEmpty = useCallback(async () => {
+    try {
+      await emptyTrash();
+      showStatusMessage('Trash emptied.');
+    } catch (error) {
+      showStatusMessage(error instanceof Error ? error.message : 'Delete failed.', 'error');
+    }
+    refresh();
+  }, [refresh, showStatusMessage]);
+
+  const restoreOne = useCallback((item: TrashedEntry) => handleRestore([item]), [handleRestore]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg" title="Trash">
+      <div className="space-responsive-md">
+        <label className="privacy-option">
+          Delete permanently after
+          <select
+            value={settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS}
+            onChange={(e) => onSettingsChange({ ...settings, trashRetentionDays: Number(e.target.value) })}
+            className="mapping-select"
+          >
+            {RETENTION_OPTIONS.map(({ days, label }) => (
+              <option key={days} value={days}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="trash-list">
+          {items === null ? (
+            <p className="text-center opacity-60 py-6">Loading...</p>
+          ) : items.length === 0 ? (
+            <p className="text-center opacity-60 py-6">The trash is empty.</p>
+          ) : (
+            items.map((item) => (
+              <TrashRow key={item.id} item={item} onRestore={restoreOne} onPurge={handlePurge} settings={settings} />
+            ))
+          )}
+        </div>
+      </div>
+
+      {items && items.length > 0 && (
+        <div className="modal-footer mt-6">
+          <Button variant="secondary" onClick={handleEmpty} className="flex-1 flex-center gap-2">
+            <Trash2 size={16} />
+            Empty Trash
+          </Button>
+          <Button
+            variant="primary"
+            onClick={() => handleRestore(items)}
+            accentColor={settings.customColors.accent}
+            className="flex-1 flex-center gap-2"
+          >
+            <RotateCcw size={16} />
+            Restore All
+          </Button>
+        </div>
+      )}
+    </Modal>
+  );
+};
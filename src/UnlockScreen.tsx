@@ -0,0 +1,76 @@
+import React, { useState, useCallback } from 'react';
+import { Lock } from 'lucide-react';
+import { Settings } from './types';
+import { Button } from './components';
+
+const UNLOCK_PROMPTS = {
+  passphrase: {
+    title: 'Journal locked',
+    text: 'Enter your passphrase to decrypt your entries.',
+    placeholder: 'Passphrase',
+  },
+  pin: {
+    title: 'Enter PIN',
+    text: 'Your journal is locked.',
+    placeholder: 'PIN',
+  },
+} as const;
+
+export const UnlockScreen: React.FC<{
+  settings: Settings;
+  onUnlock: (secret: string) => Promise<void>;
+  mode?: 'passphrase' | 'pin';
+}> = ({ settings, onUnlock, mode = 'passphrase' }) => {
+  const prompt = UNLOCK_PROMPTS[mode];
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!passphrase || isUnlocking) return;
+
+      setIsUnlocking(true);
+      setError(null);
+      try {
+        await onUnlock(passphrase);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not unlock the journal.');
+        setPassphrase('');
+        setIsUnlocking(false);
+      }
+    },
+    [passphrase, isUnlocking, onUnlock]
+  );
+
+  return (
+    <div className="unlock-screen">
+      <form onSubmit={handleSubmit} className="unlock-card">
+        <Lock size={32} className="mx-auto opacity-70" />
+        <h1 className="unlock-title">{prompt.title}</h1>
+        <p className="unlock-text">{prompt.text}</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className={`input-base ${mode === 'pin' ? 'unlock-pin-input' : ''}`}
+          placeholder={prompt.placeholder}
+          inputMode={mode === 'pin' ? 'numeric' : undefined}
+          autoComplete={mode === 'pin' ? 'off' : 'current-password'}
+          autoFocus
+        />
+        {error && <p className="unlock-error">{error}</p>}
+        <Button
+          type="submit"
+          variant="primary"
+          accentColor={settings.customColors.accent}
+          disabled={!passphrase || isUnlocking}
+          className="w-full"
+        >
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </Button>
+      </form>
+    </div>
+  );
+};
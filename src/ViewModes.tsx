@@ -1,7 +1,39 @@
 import React, { useRef, useMemo, useCallback, useState, useEffect } from 'react';
-import { MoodEntry, MoodColor, Settings, ViewMode, WEEKDAYS } from './types';
-import { formatDate, getDaysInMonth, getFirstDayOfMonth, isToday, addMonths, getMonthsInYear, parseDate, isFutureDate, formatDisplayDate, filterEntriesBySearch, sortEntriesByDate, processLineBreaks, getMoodStyle } from './utils';
+import {
+  MoodEntry,
+  MoodColor,
+  CheckIn,
+  EntryMetrics,
+  Settings,
+  ViewMode,
+  WEEKDAYS,
+  METRICS,
+  METRIC_KEYS,
+} from './types';
+import {
+  formatDate,
+  getDaysInMonth,
+  getFirstDayOfMonth,
+  isToday,
+  addMonths,
+  getMonthsInYear,
+  parseDate,
+  isFutureDate,
+  formatDisplayDate,
+  filterEntriesBySearch,
+  sortEntriesByDate,
+  processLineBreaks,
+  getMoodStyle,
+  getDayMood,
+  getEntryActivities,
+  getActivitiesById,
+  getMoodColor,
+  getMoodLabel,
+  formatMetric,
+  formatTrackerValue,
+} from './utils';
 import { useGestureNavigation } from './hooks';
+import { ActivityChip } from './components';
 
 interface VirtualListProps<T> {
   items: T[];
@@ -73,7 +105,7 @@ const SIZE_CLASSES = {
   large: 'calendar-day-large',
 } as const;
 
-const CalendarDay: React.FC<{
+export const CalendarDay: React.FC<{
   date: Date;
   mood: MoodColor;
   hasEntry: boolean;
@@ -82,7 +114,18 @@ const CalendarDay: React.FC<{
   size?: 'small' | 'medium' | 'large';
   settings: Settings;
   onClick: () => void;
-}> = React.memo(({ date, mood, hasEntry, isToday, isCurrentMonth, size = 'medium', settings, onClick }) => {
+  trackerDone?: boolean; // set when the month view shows a tracker under each day; future days get no dot
+}> = React.memo(({
+  date,
+  mood,
+  hasEntry,
+  isToday,
+  isCurrentMonth,
+  size = 'medium',
+  settings,
+  onClick,
+  trackerDone,
+}) => {
   const day = date.getDate();
   const isFuture = date > new Date();
   const circleStyle = useMemo(() => getMoodStyle(mood, settings, isFuture), [mood, settings, isFuture]);
@@ -112,12 +155,21 @@ const CalendarDay: React.FC<{
       type="button"
     >
       {size !== 'small' && <span className="leading-none">{day}</span>}
+      {trackerDone !== undefined && !isFuture && (
+        <span
+          className={`calendar-tracker-dot ${trackerDone ? '' : 'calendar-tracker-dot-missed'}`}
+          style={trackerDone ? { backgroundColor: settings.customColors.accent } : undefined}
+        />
+      )}
     </button>
   );
 });
 
-const EmptyState: React.FC<{ searchQuery?: string }> = React.memo(({ searchQuery = '' }) => {
-  const hasSearch = searchQuery.trim().length > 0;
+const EmptyState: React.FC<{ searchQuery?: string; isFiltered?: boolean }> = React.memo(({
+  searchQuery = '',
+  isFiltered = false,
+}) => {
+  const hasSearch = searchQuery.trim().length > 0 || isFiltered;
 
   return (
     <div className="empty-state">
@@ -126,12 +178,85 @@ const EmptyState: React.FC<{ searchQuery?: string }> = React.memo(({ searchQuery
         {hasSearch ? 'No results found...' : "There's nothing here..."}
       </h3>
       <p className="empty-state-subtitle">
-        {hasSearch ? 'Try adjusting your search terms.' : 'Add a mood entry first!'}
+        {hasSearch ? 'Try adjusting your search terms or filters.' : 'Add a mood entry first!'}
       </p>
     </div>
   );
 });
 
+export const ActivityList: React.FC<{ entry?: MoodEntry; settings: Settings }> = React.memo(({ entry, settings }) => {
+  const activities = useMemo(() => getEntryActivities(entry, settings), [entry, settings]);
+  if (activities.length === 0) return null;
+
+  return (
+    <div className="activity-chip-list mt-2">
+      {activities.map((activity) => (
+        <ActivityChip key={activity.id} activity={activity} />
+      ))}
+    </div>
+  );
+});
+
+export const MetricList: React.FC<{ metrics?: EntryMetrics }> = React.memo(({ metrics }) => {
+  const recorded = METRIC_KEYS.flatMap((key) => {
+    const value = metrics?.[key];
+    return value === undefined ? [] : [{ key, value }];
+  });
+  if (recorded.length === 0) return null;
+
+  return (
+    <div className="activity-chip-list mt-2">
+      {recorded.map(({ key, value }) => (
+        <span key={key} className="activity-chip">
+          {METRICS[key].label} {formatMetric(key, value)}
+        </span>
+      ))}
+    </div>
+  );
+});
+
+// Trackers in the order of the settings list; values of removed trackers are not shown
+export const TrackerList: React.FC<{ entry?: MoodEntry; settings: Settings }> = React.memo(({ entry, settings }) => {
+  const recorded = settings.trackers.filter((tracker) => entry?.trackers?.[tracker.id] !== undefined);
+  if (recorded.length === 0) return null;
+
+  return (
+    <div className="activity-chip-list mt-2">
+      {recorded.map((tracker) => (
+        <span key={tracker.id} className="activity-chip">
+          <span aria-hidden="true">{tracker.emoji}</span>
+          {tracker.name}
+          {tracker.kind !== 'boolean' && ` ${formatTrackerValue(tracker, entry?.trackers?.[tracker.id] ?? 0)}`}
+        </span>
+      ))}
+    </div>
+  );
+});
+
+export const CheckInList: React.FC<{
+  checkIns?: CheckIn[];
+  settings: Settings;
+  onMentionClick?: (mention: string) => void;
+}> = React.memo(({ checkIns, settings, onMentionClick }) => {
+  if (!checkIns?.length) return null;
+
+  return (
+    <ul className="check-in-list">
+      {checkIns.map((checkIn, index) => (
+        <li key={`${checkIn.time}-${index}`} className="check-in-item">
+          <span
+            className="import-mood-dot mt-1"
+            style={{ backgroundColor: getMoodColor(checkIn.mood, settings) }}
+            aria-label={`Mood: ${getMoodLabel(checkIn.mood, settings)}`}
+          />
+          <span className="check-in-time">{checkIn.time}</span>
+          {checkIn.diary && <span className="check-in-text">{processLineBreaks(checkIn.diary, onMentionClick)}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+});
+
 const EntryPreview: React.FC<{
   date: Date;
   entry?: MoodEntry;
@@ -139,12 +264,24 @@ const EntryPreview: React.FC<{
   settings: Settings;
   truncateForDayView?: boolean;
   showMoodSelector?: boolean;
-}> = React.memo(({ date, entry, onClick, settings, truncateForDayView = false, showMoodSelector = false }) => {
+  onMentionClick?: (mention: string) => void;
+}> = React.memo(({
+  date,
+  entry,
+  onClick,
+  settings,
+  truncateForDayView = false,
+  showMoodSelector = false,
+  onMentionClick,
+}) => {
   const contentRef = React.useRef<HTMLParagraphElement>(null);
   const [needsTruncation, setNeedsTruncation] = React.useState(false);
 
   const formattedDate = useMemo(() => formatDisplayDate(date), [date]);
-  const processedDiaryContent = useMemo(() => processLineBreaks(entry?.diary || ''), [entry?.diary]);
+  const processedDiaryContent = useMemo(
+    () => processLineBreaks(entry?.diary || '', onMentionClick),
+    [entry?.diary, onMentionClick]
+  );
   const truncatedDiaryText = useMemo(
     () => entry?.diary && entry.diary.length > 100 ? entry.diary.substring(0, 100) + '...' : entry?.diary || '',
     [entry?.diary]
@@ -169,16 +306,14 @@ const EntryPreview: React.FC<{
     onClick();
   }, [onClick]);
 
-  const moodColor = useMemo(
-    () => entry?.mood ? settings.customColors.moods[entry.mood] : settings.customColors.moods.grey,
-    [entry?.mood, settings.customColors.moods]
-  );
-  const moodLabel = entry?.mood ? settings.customLabels[entry.mood] : 'No mood selected';
+  const dayMood = getDayMood(entry, settings);
+  const moodColor = getMoodColor(dayMood, settings);
+  const moodLabel = entry ? getMoodLabel(dayMood, settings) : 'No mood selected';
 
   return (
     <div
       onClick={onClick}
-      className="card-base cursor-pointer hover:shadow-xl transition-all duration-200 hover:scale-[1.02] entry-preview-centered"
+      className="card-base cursor-pointer hover:shadow-xl transition-all duration-200 hover:scale-[1.02] entry-preview-centered private-content"
       role="button"
       tabIndex={0}
       onKeyDown={handleKeyDown}
@@ -203,6 +338,9 @@ const EntryPreview: React.FC<{
           )}
         </div>
       </div>
+      <ActivityList entry={entry} settings={settings} />
+      <MetricList metrics={entry?.metrics} />
+      <TrackerList entry={entry} settings={settings} />
       {entry?.diary && (
         <p
           ref={contentRef}
@@ -215,6 +353,7 @@ const EntryPreview: React.FC<{
           {processedDiaryContent}
         </p>
       )}
+      <CheckInList checkIns={entry?.checkIns} settings={settings} onMentionClick={onMentionClick} />
     </div>
   );
 });
@@ -225,17 +364,45 @@ export const ViewDay: React.FC<{
   searchQuery?: string;
   settings: Settings;
   onViewModeChange: (mode: ViewMode, direction?: 'in' | 'out') => void;
-}> = React.memo(({ entries, onEntryClick, searchQuery = '', settings, onViewModeChange }) => {
+  onMentionClick?: (mention: string) => void;
+}> = React.memo(({ entries, onEntryClick, searchQuery = '', settings, onViewModeChange, onMentionClick }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [useVirtualization, setUseVirtualization] = useState(false);
+  const [activityFilter, setActivityFilter] = useState<string[]>([]);
 
   const handleZoomOut = useCallback(() => onViewModeChange('month', 'in'), [onViewModeChange]);
   useGestureNavigation(containerRef, { onZoomOut: handleZoomOut });
 
+  // Only activities that some entry uses are offered as filters
+  const usedActivities = useMemo(() => {
+    const used = new Set(entries.flatMap((entry) => entry.activities ?? []));
+    return getActivitiesById(Array.from(used), settings);
+  }, [entries, settings]);
+
+  const toggleActivityFilter = useCallback((id: string) => {
+    setActivityFilter((prev) => (prev.includes(id) ? prev.filter((activity) => activity !== id) : [...prev, id]));
+  }, []);
+
   const sortedEntries = useMemo(() => {
-    const filtered = filterEntriesBySearch(entries, searchQuery, settings);
+    const filtered = filterEntriesBySearch(entries, searchQuery, settings).filter((entry) =>
+      activityFilter.every((id) => entry.activities?.includes(id))
+    );
     return sortEntriesByDate(filtered, false);
-  }, [entries, searchQuery, settings]);
+  }, [entries, searchQuery, settings, activityFilter]);
+
+  const filterBar = usedActivities.length > 0 && (
+    <div className="activity-chip-list mb-3 sm:mb-4" role="group" aria-label="Filter by activity">
+      {usedActivities.map((activity) => (
+        <ActivityChip
+          key={activity.id}
+          activity={activity}
+          isSelected={activityFilter.includes(activity.id)}
+          onClick={() => toggleActivityFilter(activity.id)}
+          accentColor={settings.customColors.accent}
+        />
+      ))}
+    </div>
+  );
 
   useEffect(() => {
     setUseVirtualization(sortedEntries.length > 20);
@@ -249,20 +416,23 @@ export const ViewDay: React.FC<{
       onClick={() => onEntryClick(entry)}
       settings={settings}
       truncateForDayView={true}
+      onMentionClick={onMentionClick}
     />
-  ), [onEntryClick, settings]);
+  ), [onEntryClick, settings, onMentionClick]);
 
   if (sortedEntries.length === 0) {
     return (
-      <div ref={containerRef} data-zoom-container className="calendar-container" role="list" aria-label="Mood entries">
-        <EmptyState searchQuery={searchQuery} />
+      <div ref={containerRef} data-zoom-container className="calendar-container private-content" role="list" aria-label="Mood entries">
+        {filterBar}
+        <EmptyState searchQuery={searchQuery} isFiltered={activityFilter.length > 0} />
       </div>
     );
   }
 
   if (useVirtualization) {
     return (
-      <div ref={containerRef} data-zoom-container className="calendar-container" role="list" aria-label="Mood entries">
+      <div ref={containerRef} data-zoom-container className="calendar-container private-content" role="list" aria-label="Mood entries">
+        {filterBar}
         <VirtualList
           items={sortedEntries}
           itemHeight={250}
@@ -280,7 +450,8 @@ export const ViewDay: React.FC<{
   }
 
   return (
-    <div ref={containerRef} data-zoom-container className="calendar-container" role="list" aria-label="Mood entries">
+    <div ref={containerRef} data-zoom-container className="calendar-container private-content" role="list" aria-label="Mood entries">
+      {filterBar}
       <div className="space-y-3 sm:space-y-4">
         {sortedEntries.map(renderEntry)}
       </div>
@@ -295,7 +466,18 @@ export const ViewMonth: React.FC<{
   onDateChange: (date: Date) => void;
   onViewModeChange: (mode: ViewMode, direction?: 'in' | 'out') => void;
   settings: Settings;
-}> = React.memo(({ currentDate, entries, onEntryEdit, onDateChange, onViewModeChange, settings }) => {
+  onSettingsChange: (settings: Settings) => void;
+  onMentionClick?: (mention: string) => void;
+}> = React.memo(({
+  currentDate,
+  entries,
+  onEntryEdit,
+  onDateChange,
+  onViewModeChange,
+  settings,
+  onSettingsChange,
+  onMentionClick,
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [selectedDate, setSelectedDate] = React.useState<Date | null>(null);
 
@@ -311,6 +493,13 @@ export const ViewMonth: React.FC<{
     return entriesMap.get(formatDate(date));
   }, [entriesMap]);
 
+  // A tracker removed in the settings stops showing even if it is still selected here
+  const calendarTracker = settings.trackers.find((tracker) => tracker.id === settings.calendarTracker);
+  const isTrackerDone = useCallback(
+    (entry?: MoodEntry) => calendarTracker && entry?.trackers?.[calendarTracker.id] !== undefined,
+    [calendarTracker]
+  );
+
   const handleSwipeLeft = useCallback(() => onDateChange(addMonths(currentDate, 1)), [currentDate, onDateChange]);
   const handleSwipeRight = useCallback(() => onDateChange(addMonths(currentDate, -1)), [currentDate, onDateChange]);
   const handleZoomOut = useCallback(() => onViewModeChange('year', 'in'), [onViewModeChange]);
@@ -346,12 +535,13 @@ export const ViewMonth: React.FC<{
         <CalendarDay
           key={`prev-${day}`}
           date={date}
-          mood={entry?.mood || 'grey'}
+          mood={getDayMood(entry, settings)}
           hasEntry={!!entry}
           isToday={isToday(date)}
           isCurrentMonth={false}
           settings={settings}
           onClick={() => setSelectedDate(date)}
+          trackerDone={isTrackerDone(entry)}
         />
       );
     }
@@ -364,12 +554,13 @@ export const ViewMonth: React.FC<{
         <CalendarDay
           key={day}
           date={date}
-          mood={entry?.mood || 'grey'}
+          mood={getDayMood(entry, settings)}
           hasEntry={!!entry}
           isToday={isToday(date)}
           isCurrentMonth={true}
           settings={settings}
           onClick={() => setSelectedDate(date)}
+          trackerDone={isTrackerDone(entry)}
         />
       );
     }
@@ -385,18 +576,19 @@ export const ViewMonth: React.FC<{
         <CalendarDay
           key={`next-${day}`}
           date={date}
-          mood={entry?.mood || 'grey'}
+          mood={getDayMood(entry, settings)}
           hasEntry={!!entry}
           isToday={isToday(date)}
           isCurrentMonth={false}
           settings={settings}
           onClick={() => setSelectedDate(date)}
+          trackerDone={isTrackerDone(entry)}
         />
       );
     }
 
     return result;
-  }, [currentDate, settings, getEntryForDate]);
+  }, [currentDate, settings, getEntryForDate, isTrackerDone]);
 
   return (
     <div className="space-y-4">
@@ -410,6 +602,24 @@ export const ViewMonth: React.FC<{
         </div>
 
         <div className="grid-calendar gap-1.5 sm:gap-2">{calendarDays}</div>
+
+        {settings.trackers.length > 0 && (
+          <label className="calendar-tracker-option">
+            Show under each day
+            <select
+              value={calendarTracker?.id ?? ''}
+              onChange={(e) => onSettingsChange({ ...settings, calendarTracker: e.target.value || undefined })}
+              className="mapping-select"
+            >
+              <option value="">Nothing</option>
+              {settings.trackers.map((tracker) => (
+                <option key={tracker.id} value={tracker.id}>
+                  {tracker.emoji} {tracker.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
       </div>
 
       {selectedDate && (
@@ -420,6 +630,7 @@ export const ViewMonth: React.FC<{
             onClick={() => onEntryEdit(selectedDate)}
             settings={settings}
             showMoodSelector={!selectedEntry}
+            onMentionClick={onMentionClick}
           />
         </div>
       )}
@@ -427,7 +638,7 @@ export const ViewMonth: React.FC<{
   );
 });
 
-const MiniMonth: React.FC<{
+export const MiniMonth: React.FC<{
   monthDate: Date;
   entries: MoodEntry[];
   settings: Settings;
@@ -455,8 +666,8 @@ const MiniMonth: React.FC<{
       const date = new Date(monthDate.getFullYear(), monthDate.getMonth(), day);
       const entry = entriesMap.get(formatDate(date));
       const isFuture = isFutureDate(date);
-      const mood = entry?.mood || 'grey';
-      const moodColor = settings.customColors.moods[mood];
+      const mood = getDayMood(entry, settings);
+      const moodColor = getMoodColor(mood, settings);
       const dayStyle = isFuture
         ? { backgroundColor: 'transparent', border: `2px solid ${moodColor}` }
         : { backgroundColor: moodColor, border: 'none' };
@@ -477,7 +688,7 @@ const MiniMonth: React.FC<{
     }
 
     return result;
-  }, [monthDate, entriesMap, settings.customColors.moods]);
+  }, [monthDate, entriesMap, settings]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' || e.key === ' ') {
@@ -0,0 +1,172 @@
+import React, { useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { ChevronLeft, ChevronRight, Printer, X } from 'lucide-react';
+import { MoodEntry, Settings, WEEKDAYS, MONTH_NAMES } from './types';
+import { IconButton, Button } from './components';
+import { CalendarDay, MiniMonth, CheckInList, ActivityList, MetricList, TrackerList } from './ViewModes';
+import {
+  formatDate,
+  getDaysInMonth,
+  getFirstDayOfMonth,
+  getMonthsInYear,
+  getValidEntries,
+  getDayMood,
+  sortEntriesByDate,
+  parseDate,
+  formatDisplayDate,
+  processLineBreaks,
+  isToday,
+  getMoodColor,
+  getMoodLabel,
+} from './utils';
+
+const noop = () => {};
+
+const YearbookMonth: React.FC<{
+  monthDate: Date;
+  entries: MoodEntry[];
+  entriesMap: Map<string, MoodEntry>;
+  settings: Settings;
+}> = React.memo(({ monthDate, entries, entriesMap, settings }) => {
+  const days = useMemo(() => {
+    const firstDay = getFirstDayOfMonth(monthDate);
+    const adjustedFirstDay = firstDay === 0 ? 6 : firstDay - 1;
+    const result: React.ReactNode[] = [];
+
+    for (let i = 0; i < adjustedFirstDay; i++) {
+      result.push(<div key={`empty-${i}`} />);
+    }
+
+    for (let day = 1; day <= getDaysInMonth(monthDate); day++) {
+      const date = new Date(monthDate.getFullYear(), monthDate.getMonth(), day);
+      const entry = entriesMap.get(formatDate(date));
+      result.push(
+        <CalendarDay
+          key={day}
+          date={date}
+          mood={getDayMood(entry, settings)}
+          hasEntry={!!entry}
+          isToday={isToday(date)}
+          isCurrentMonth={true}
+          settings={settings}
+          onClick={noop}
+        />
+      );
+    }
+
+    return result;
+  }, [monthDate, entriesMap, settings]);
+
+  return (
+    <section className="yearbook-page">
+      <h2 className="yearbook-month-title">
+        {MONTH_NAMES[monthDate.getMonth()]} {monthDate.getFullYear()}
+      </h2>
+
+      <div className="yearbook-calendar">
+        <div className="grid-calendar gap-2 mb-2">
+          {WEEKDAYS.map((day) => (
+            <div key={day} className="calendar-weekday">
+              {day}
+            </div>
+          ))}
+        </div>
+        <div className="grid-calendar gap-2">{days}</div>
+      </div>
+
+      {entries.map((entry) => {
+        const dayMood = getDayMood(entry, settings);
+        return (
+          <article key={entry.date} className="yearbook-entry">
+            <div className="entry-header">
+              <h3 className="entry-date">{formatDisplayDate(parseDate(entry.date))}</h3>
+              <span className="yearbook-entry-mood">
+                <span className="import-mood-dot" style={{ backgroundColor: getMoodColor(dayMood, settings) }} />
+                {getMoodLabel(dayMood, settings)}
+              </span>
+            </div>
+            <ActivityList entry={entry} settings={settings} />
+            <MetricList metrics={entry.metrics} />
+            <TrackerList entry={entry} settings={settings} />
+            {entry.diary && <p className="entry-content">{processLineBreaks(entry.diary)}</p>}
+            <CheckInList checkIns={entry.checkIns} settings={settings} />
+          </article>
+        );
+      })}
+    </section>
+  );
+});
+
+export const Yearbook: React.FC<{
+  year: number;
+  entries: MoodEntry[];
+  settings: Settings;
+  onYearChange: (year: number) => void;
+  onClose: () => void;
+}> = ({ year, entries, settings, onYearChange, onClose }) => {
+  const yearEntries = useMemo(
+    () => sortEntriesByDate(getValidEntries(entries).filter((entry) => entry.date.startsWith(`${year}-`))),
+    [entries, year]
+  );
+
+  const entriesMap = useMemo(() => new Map(yearEntries.map((entry) => [entry.date, entry])), [yearEntries]);
+
+  const months = useMemo(() => getMonthsInYear(year), [year]);
+
+  const entriesByMonth = useMemo(
+    () => months.map((_, month) => yearEntries.filter((entry) => parseDate(entry.date).getMonth() === month)),
+    [months, yearEntries]
+  );
+
+  return createPortal(
+    <div
+      className={`yearbook ${settings.isDarkMode ? 'dark' : 'light-mode'}`}
+      style={{ backgroundColor: settings.customColors.base, color: settings.customColors.text }}
+    >
+      <div className="yearbook-toolbar">
+        <IconButton icon={<ChevronLeft size={20} />} onClick={() => onYearChange(year - 1)} title="Previous year" />
+        <span className="font-bold">{year}</span>
+        <IconButton icon={<ChevronRight size={20} />} onClick={() => onYearChange(year + 1)} title="Next year" />
+        <Button
+          variant="primary"
+          onClick={() => window.print()}
+          accentColor={settings.customColors.accent}
+          className="flex-center gap-2 ml-auto"
+        >
+          <Printer size={16} />
+          Print / Save PDF
+        </Button>
+        <IconButton icon={<X size={20} />} onClick={onClose} title="Close" />
+      </div>
+
+      <section className="yearbook-page yearbook-cover">
+        <h1 className="yearbook-cover-title">{year}</h1>
+        <p className="yearbook-cover-subtitle">
+          {yearEntries.length} {yearEntries.length === 1 ? 'entry' : 'entries'}
+        </p>
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-4">
+          {months.map((monthDate) => (
+            <MiniMonth
+              key={monthDate.getMonth()}
+              monthDate={monthDate}
+              entries={yearEntries}
+              settings={settings}
+              onMonthClick={noop}
+            />
+          ))}
+        </div>
+      </section>
+
+      {months.map((monthDate, month) => (
+        <YearbookMonth
+          key={month}
+          monthDate={monthDate}
+          entries={entriesByMonth[month]}
+          entriesMap={entriesMap}
+          settings={settings}
+        />
+      ))}
+    </div>,
+    document.body
+  );
+};
@@ -7,16 +7,27 @@ import React, {
   Suspense,
   useRef,
 } from 'react';
+import { createPortal } from 'react-dom';
 import { createRoot } from 'react-dom/client';
 import { AppHeader } from './Header';
 import { Diary } from './Diary';
-import { MoodEntry, ViewMode, Settings, DEFAULT_SETTINGS } from './types';
-import { useLocalStorage } from './hooks';
+import { MoodEntry, ViewMode, StatusAction } from './types';
+import {
+  useJournalStorage,
+  useAppLock,
+  useFolderSync,
+  useServerSync,
+  useWebDavSync,
+} from './hooks';
+import { UnlockScreen } from './UnlockScreen';
+import { TrashedEntry, getStorageErrorMessage } from './storage';
 import {
   formatDate,
   getValidEntries,
+  hasEntryContent,
   getCalendarIconSvg,
   calculateGradientColors,
+  ImportResolution,
 } from './utils';
 import './styles.css';
 
@@ -29,46 +40,159 @@ const ViewYear = lazy(() =>
 const ViewDay = lazy(() =>
   import('./ViewModes').then((module) => ({ default: module.ViewDay }))
 );
+const Yearbook = lazy(() =>
+  import('./Yearbook').then((module) => ({ default: module.Yearbook }))
+);
+const ShareImage = lazy(() =>
+  import('./ShareImage').then((module) => ({ default: module.ShareImage }))
+);
 const SettingsModal = lazy(() =>
   import('./Settings').then((module) => ({ default: module.SettingsModal }))
 );
+const Stats = lazy(() =>
+  import('./Stats').then((module) => ({ default: module.Stats }))
+);
+const MentionIndex = lazy(() =>
+  import('./MentionIndex').then((module) => ({ default: module.MentionIndex }))
+);
+const ImportPreview = lazy(() =>
+  import('./ImportPreview').then((module) => ({
+    default: module.ImportPreview,
+  }))
+);
 
 function App() {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [viewMode, setViewMode] = useState<ViewMode>('month');
-  const [entries, setEntries] = useLocalStorage<MoodEntry[]>(
-    'mood-entries',
-    []
-  );
-  const [settings, setSettings] = useLocalStorage<Settings>(
-    'mood-settings',
-    DEFAULT_SETTINGS
-  );
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [yearbookYear, setYearbookYear] = useState<number | null>(null);
+  const [isShareImageOpen, setIsShareImageOpen] = useState(false);
+  const [isSyncReviewOpen, setIsSyncReviewOpen] = useState(false);
+  const [isMentionIndexOpen, setIsMentionIndexOpen] = useState(false);
+  const [isStatsOpen, setIsStatsOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusMessage, setStatusMessage] = useState<{
     text: string;
     type: 'success' | 'error';
+    action?: StatusAction;
   } | null>(null);
   const statusTimeoutRef = useRef<NodeJS.Timeout>();
 
-  useEffect(() => {
-    if (!settings.customLabels) {
-      setSettings({ ...settings, customLabels: DEFAULT_SETTINGS.customLabels });
-    }
-  }, []);
-
   const showStatusMessage = useCallback(
-    (message: string, type: 'success' | 'error' = 'success') => {
+    (
+      message: string,
+      type: 'success' | 'error' = 'success',
+      action?: StatusAction
+    ) => {
       if (statusTimeoutRef.current) {
         clearTimeout(statusTimeoutRef.current);
       }
-      setStatusMessage({ text: message, type });
-      statusTimeoutRef.current = setTimeout(() => setStatusMessage(null), 3000);
+      setStatusMessage({ text: message, type, action });
+      statusTimeoutRef.current = setTimeout(
+        () => setStatusMessage(null),
+        type === 'error' || action ? 6000 : 3000
+      );
     },
     []
   );
+
+  const handleStorageError = useCallback(
+    (message: string) => showStatusMessage(message, 'error'),
+    [showStatusMessage]
+  );
+
+  const handleTrash = useCallback(
+    (trashed: TrashedEntry[], undo: () => Promise<number>) => {
+      showStatusMessage(
+        trashed.length === 1
+          ? 'Entry moved to trash.'
+          : `${trashed.length} entries moved to trash.`,
+        'success',
+        {
+          label: 'Undo',
+          onClick: () => {
+            undo()
+              .then((restored) =>
+                showStatusMessage(
+                  restored === trashed.length
+                    ? 'Restored.'
+                    : `Restored ${restored} of ${trashed.length}. The rest are still in the trash.`
+                )
+              )
+              .catch((error) =>
+                showStatusMessage(getStorageErrorMessage(error), 'error')
+              );
+          },
+        }
+      );
+    },
+    [showStatusMessage]
+  );
+
+  const {
+    entries,
+    setEntries,
+    settings,
+    setSettings,
+    isLoading,
+    loadError,
+    isEncrypted,
+    isLocked,
+    unlock,
+    lock,
+    enableEncryption,
+    disableEncryption,
+    restoreFromTrash,
+    mergeEntries,
+  } = useJournalStorage(handleStorageError, handleTrash);
+
+  const { isAppLocked, unlockApp } = useAppLock(settings.appLock, !isLoading);
+  const folderSync = useFolderSync(
+    entries,
+    settings,
+    !isLoading && !isLocked,
+    mergeEntries,
+    handleStorageError
+  );
+  const serverSync = useServerSync(
+    entries,
+    !isLoading && !isLocked,
+    isEncrypted,
+    mergeEntries,
+    handleStorageError
+  );
+  const webDavSync = useWebDavSync(
+    entries,
+    settings,
+    !isLoading && !isLocked,
+    mergeEntries,
+    handleStorageError
+  );
+
+  const syncConflicts = webDavSync.conflicts;
+  useEffect(() => {
+    if (!syncConflicts) return;
+    const count = syncConflicts.conflicts.length;
+    showStatusMessage(
+      `WebDAV sync paused: ${count} ${count === 1 ? 'date was' : 'dates were'} edited on two devices.`,
+      'error',
+      { label: 'Review', onClick: () => setIsSyncReviewOpen(true) }
+    );
+  }, [syncConflicts, showStatusMessage]);
+
+  const handleResolveSyncConflicts = useCallback(
+    async (resolutions: Record<string, ImportResolution>) => {
+      setIsSyncReviewOpen(false);
+      const error = await webDavSync.resolveConflicts(resolutions);
+      showStatusMessage(
+        error ?? 'Conflicts resolved and synced.',
+        error ? 'error' : 'success'
+      );
+    },
+    [webDavSync, showStatusMessage]
+  );
+
   useEffect(() => {
     const root = document.documentElement;
     const { customColors } = settings;
@@ -86,10 +210,6 @@ function App() {
     root.style.setProperty('--gradient-via', gradientColors.via);
     root.style.setProperty('--gradient-to', gradientColors.to);
 
-    Object.entries(customColors.moods).forEach(([mood, color]) => {
-      root.style.setProperty(`--color-mood-${mood}`, color);
-    });
-
     const metaThemeColor = document.getElementById('theme-color-meta');
     if (metaThemeColor) {
       metaThemeColor.setAttribute('content', customColors.base);
@@ -98,7 +218,6 @@ function App() {
     settings.customColors.base,
     settings.customColors.accent,
     settings.customColors.text,
-    settings.customColors.moods,
   ]);
 
   useEffect(() => {
@@ -125,10 +244,7 @@ function App() {
     (entry: MoodEntry) => {
       setEntries((prev) => {
         const filtered = prev.filter((e) => e.date !== entry.date);
-        if (entry.mood === 'grey' && !entry.diary.trim()) {
-          return filtered;
-        }
-        return [...filtered, entry];
+        return hasEntryContent(entry) ? [...filtered, entry] : filtered;
       });
     },
     [setEntries]
@@ -146,6 +262,11 @@ function App() {
     const [year, month, day] = entry.date.split('-').map(Number);
     setSelectedDate(new Date(year, month - 1, day));
   }, []);
+  // Shows every entry with the hashtag or mention
+  const handleMentionClick = useCallback((mention: string) => {
+    setSearchQuery(mention);
+    setViewMode('day');
+  }, []);
   const validEntries = useMemo(() => getValidEntries(entries), [entries]);
 
   const backgroundClass = useMemo(() => {
@@ -174,6 +295,18 @@ function App() {
     settings.customColors.base,
   ]);
 
+  if (isLocked) {
+    return (
+      <div
+        className={`min-h-screen h-full ${
+          settings.isDarkMode ? 'dark' : 'light-mode'
+        } ${backgroundClass}`}
+      >
+        <UnlockScreen settings={settings} onUnlock={unlock} />
+      </div>
+    );
+  }
+
   return (
     <div
       className={`min-h-screen h-full transition-colors duration-300 ${
@@ -200,52 +333,67 @@ function App() {
           viewMode={viewMode}
           onViewModeChange={setViewMode}
           onSettingsClick={() => setIsSettingsOpen(true)}
+          onMentionIndexClick={() => setIsMentionIndexOpen(true)}
+          onStatsClick={() => setIsStatsOpen(true)}
           searchQuery={searchQuery}
           onSearchChange={setSearchQuery}
           settings={settings}
         />
 
         <main className="space-y-3 sm:space-y-6">
-          <Suspense
-            fallback={
-              <div className="flex-center min-h-[400px]">
-                <div className="text-responsive-base opacity-70">
-                  Loading...
-                </div>
+          {isLoading || loadError ? (
+            <div className="flex-center min-h-[400px]">
+              <div className="text-responsive-base opacity-70 text-center">
+                {loadError
+                  ? `Could not open your journal: ${loadError}`
+                  : 'Loading your journal...'}
               </div>
-            }
-          >
-            {viewMode === 'month' && (
-              <ViewMonth
-                currentDate={currentDate}
-                entries={entries}
-                onEntryEdit={setSelectedDate}
-                onDateChange={setCurrentDate}
-                onViewModeChange={setViewMode}
-                settings={settings}
-              />
-            )}
+            </div>
+          ) : (
+            <Suspense
+              fallback={
+                <div className="flex-center min-h-[400px]">
+                  <div className="text-responsive-base opacity-70">
+                    Loading...
+                  </div>
+                </div>
+              }
+            >
+              {viewMode === 'month' && (
+                <ViewMonth
+                  currentDate={currentDate}
+                  entries={entries}
+                  onEntryEdit={setSelectedDate}
+                  onDateChange={setCurrentDate}
+                  onViewModeChange={setViewMode}
+                  settings={settings}
+                  onSettingsChange={setSettings}
+                  onMentionClick={handleMentionClick}
+                />
+              )}
 
-            {viewMode === 'year' && (
-              <ViewYear
-                currentDate={currentDate}
-                entries={entries}
-                onDateChange={setCurrentDate}
-                onViewModeChange={setViewMode}
-                settings={settings}
-              />
-            )}
+              {viewMode === 'year' && (
+                <ViewYear
+                  currentDate={currentDate}
+                  entries={entries}
+                  onDateChange={setCurrentDate}
+                  onViewModeChange={setViewMode}
+                  settings={settings}
+                />
+              )}
 
-            {viewMode === 'day' && (
-              <ViewDay
-                entries={validEntries}
-                onEntryClick={handleEntryClick}
-                searchQuery={searchQuery}
-                settings={settings}
-                onViewModeChange={setViewMode}
-              />
-            )}
-          </Suspense>
+              {viewMode === 'day' && (
+                <ViewDay
+                  entries={validEntries}
+                  onEntryClick={handleEntryClick}
+                  searchQuery={searchQuery}
+                  settings={settings}
+                  onViewModeChange={setViewMode}
+                  onMentionClick={handleMentionClick}
+                />
+              )}
+            </Suspense>
+          )}
         </main>
 
         <Diary
@@ -255,6 +403,7 @@ function App() {
           entry={currentEntry}
           onSave={handleSaveEntry}
           settings={settings}
+          showStatusMessage={showStatusMessage}
         />
 
         <Suspense fallback={null}>
@@ -267,11 +416,104 @@ function App() {
               entries={entries}
               setEntries={setEntries}
               onDeleteAllData={() => setEntries([])}
+              onRestoreFromTrash={restoreFromTrash}
+              folderSync={folderSync}
+              serverSync={serverSync}
+              webDavSync={webDavSync}
+              onReviewSyncConflicts={() => {
+                setIsSettingsOpen(false);
+                setIsSyncReviewOpen(true);
+              }}
+              onPrintYearbook={() => {
+                setIsSettingsOpen(false);
+                setYearbookYear(currentDate.getFullYear());
+              }}
+              onShareImage={() => {
+                setIsSettingsOpen(false);
+                setIsShareImageOpen(true);
+              }}
+              isEncrypted={isEncrypted}
+              onEnableEncryption={enableEncryption}
+              onDisableEncryption={disableEncryption}
+              onLock={() => {
+                setIsSettingsOpen(false);
+                setSelectedDate(null);
+                lock();
+              }}
+              showStatusMessage={showStatusMessage}
+            />
+          )}
+
+          {isMentionIndexOpen && (
+            <MentionIndex
+              isOpen={isMentionIndexOpen}
+              onClose={() => setIsMentionIndexOpen(false)}
+              entries={validEntries}
+              onSelect={handleMentionClick}
+              settings={settings}
+            />
+          )}
+
+          {isStatsOpen && (
+            <Stats
+              isOpen={isStatsOpen}
+              onClose={() => setIsStatsOpen(false)}
+              initialDate={currentDate}
+              entries={entries}
+              settings={settings}
+            />
+          )}
+
+          {isShareImageOpen && (
+            <ShareImage
+              isOpen={isShareImageOpen}
+              onClose={() => setIsShareImageOpen(false)}
+              initialDate={currentDate}
+              entries={entries}
+              settings={settings}
               showStatusMessage={showStatusMessage}
             />
           )}
+
+          {isSyncReviewOpen && syncConflicts && (
+            <ImportPreview
+              isOpen={isSyncReviewOpen}
+              plan={{
+                added: syncConflicts.incoming,
+                identical: [],
+                conflicts: syncConflicts.conflicts,
+              }}
+              sourceLabel="WebDAV copy"
+              mode="sync"
+              onCancel={() => setIsSyncReviewOpen(false)}
+              onConfirm={handleResolveSyncConflicts}
+              settings={settings}
+            />
+          )}
+
+          {yearbookYear !== null && (
+            <Yearbook
+              year={yearbookYear}
+              entries={entries}
+              settings={settings}
+              onYearChange={setYearbookYear}
+              onClose={() => setYearbookYear(null)}
+            />
+          )}
         </Suspense>
 
+        {isAppLocked &&
+          createPortal(
+            <div className="app-lock-overlay">
+              <UnlockScreen
+                settings={settings}
+                onUnlock={unlockApp}
+                mode="pin"
+              />
+            </div>,
+            document.body
+          )}
+
         {statusMessage && (
           <div
             className={`status-message ${
@@ -279,6 +521,18 @@ function App() {
             }`}
           >
             {statusMessage.text}
+            {statusMessage.action && (
+              <button
+                type="button"
+                className="status-action"
+                onClick={() => {
+                  statusMessage.action?.onClick();
+                  setStatusMessage(null);
+                }}
+              >
+                {statusMessage.action.label}
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -1,5 +1,6 @@
 import React from 'react';
 import { X } from 'lucide-react';
+import { Activity } from './types';
 
 const VARIANT_CLASSES = {
   primary: 'button-primary',
@@ -105,3 +106,32 @@ export const Modal: React.FC<{
     </div>
   );
 });
+
+// A button when it can be toggled, plain text otherwise
+export const ActivityChip: React.FC<{
+  activity: Activity;
+  isSelected?: boolean;
+  onClick?: () => void;
+  accentColor?: string;
+}> = React.memo(({ activity, isSelected = false, onClick, accentColor }) => {
+  const content = (
+    <>
+      <span aria-hidden="true">{activity.emoji}</span>
+      {activity.name}
+    </>
+  );
+
+  if (!onClick) return <span className="activity-chip">{content}</span>;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`activity-chip activity-chip-button ${isSelected ? 'activity-chip-selected' : ''}`}
+      style={isSelected && accentColor ? { backgroundColor: accentColor } : undefined}
+      aria-pressed={isSelected}
+    >
+      {content}
+    </button>
+  );
+});
@@ -0,0 +1,76 @@
+// Web Crypto helpers for passphrase-based encryption (PBKDF2 key derivation, AES-GCM payloads).
+
+export interface EncryptionParams {
+  salt: string;
+  iterations: number;
+}
+
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+const DEFAULT_ITERATIONS = 310000;
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+export const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+export const createEncryptionParams = (): EncryptionParams => ({
+  salt: bytesToBase64(randomBytes(16)),
+  iterations: DEFAULT_ITERATIONS,
+});
+
+export const deriveKey = async (passphrase: string, params: EncryptionParams): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: base64ToBytes(params.salt), iterations: params.iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptJson = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(data)) };
+};
+
+export const decryptJson = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> => {
+  try {
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(payload.iv) },
+      key,
+      base64ToBytes(payload.data)
+    );
+    return JSON.parse(new TextDecoder().decode(data)) as T;
+  } catch {
+    throw new Error('Incorrect passphrase or damaged data.');
+  }
+};
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// PINs are short, so this only keeps them out of plain sight in settings; it is not encryption.
+export const hashPin = (pin: string, salt: string): Promise<string> => sha256Hex(`${salt}:${pin}`);
@@ -0,0 +1,105 @@
+// Keeps a copy of the journal as a JSON file in a folder the user picks (File System Access API),
+// so their own backup tools can see it. Browsers without the API download and upload the same file.
+import { MoodEntry, Settings } from './types';
+import { createBackup, restoreBackup, getBackupChecksum } from './utils';
+import { readMeta, writeMeta, deleteMeta, getJournalEncryption } from './storage';
+
+export const JOURNAL_FILE_NAME = 'mood-journal.json';
+
+const FOLDER_SYNC_KEY = 'folder-sync';
+
+export interface FolderSyncState {
+  handle: FileSystemDirectoryHandle;
+  lastSyncedAt: number; // lastModified of the file as we last wrote or read it
+  checksum?: string; // of what the file held then, see getBackupChecksum
+}
+
+type PermissionMode = { mode: 'readwrite' };
+
+// Parts of the API that are not in the TypeScript DOM library yet
+interface PermissionedHandle {
+  queryPermission(descriptor: PermissionMode): Promise<PermissionState>;
+  requestPermission(descriptor: PermissionMode): Promise<PermissionState>;
+}
+
+type DirectoryPicker = (options: PermissionMode & { id?: string }) => Promise<FileSystemDirectoryHandle>;
+
+const READ_WRITE: PermissionMode = { mode: 'readwrite' };
+
+export const isFolderSyncSupported = (): boolean => typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+export const loadFolderSync = (): Promise<FolderSyncState | undefined> => readMeta<FolderSyncState>(FOLDER_SYNC_KEY);
+
+export const chooseSyncFolder = async (): Promise<FolderSyncState> => {
+  const showDirectoryPicker = (window as unknown as { showDirectoryPicker: DirectoryPicker }).showDirectoryPicker;
+  const handle = await showDirectoryPicker({ ...READ_WRITE, id: 'mood-journal' });
+  const state: FolderSyncState = { handle, lastSyncedAt: 0 };
+  await writeMeta(FOLDER_SYNC_KEY, state);
+  return state;
+};
+
+export const disconnectSyncFolder = (): Promise<void> => deleteMeta(FOLDER_SYNC_KEY);
+
+// Browsers forget the grant between sessions; asking again needs a user gesture
+export const ensureFolderPermission = async (handle: FileSystemDirectoryHandle, prompt: boolean): Promise<boolean> => {
+  const permissioned = handle as unknown as PermissionedHandle;
+  if ((await permissioned.queryPermission(READ_WRITE)) === 'granted') return true;
+  return prompt && (await permissioned.requestPermission(READ_WRITE)) === 'granted';
+};
+
+// Returns the remote entries that should replace or add to local ones: per date, the newer edit wins
+export const selectNewerEntries = (local: MoodEntry[], remote: MoodEntry[]): MoodEntry[] => {
+  const localByDate = new Map(local.map((entry) => [entry.date, entry]));
+  return remote.filter((entry) => {
+    const current = localByDate.get(entry.date);
+    return !current || (entry.updatedAt ?? 0) > (current.updatedAt ?? 0);
+  });
+};
+
+export const readJournalFile = async (content: string): Promise<{ entries: MoodEntry[]; checksum: string }> => {
+  try {
+    const { entries, checksum } = await restoreBackup(content, getJournalEncryption()?.key);
+    return { entries, checksum };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read ${JOURNAL_FILE_NAME}: ${reason}`);
+  }
+};
+
+export const createJournalFile = (entries: MoodEntry[], settings: Settings): Promise<string> =>
+  createBackup(entries, settings, getJournalEncryption());
+
+// Reads the folder copy if it changed since the last sync, then writes the merged journal back.
+// Dates missing from the file are kept locally, so deletions do not travel through the folder.
+export const syncFolder = async (
+  state: FolderSyncState,
+  entries: MoodEntry[],
+  settings: Settings
+): Promise<{ incoming: MoodEntry[]; state: FolderSyncState }> => {
+  const fileHandle = await state.handle.getFileHandle(JOURNAL_FILE_NAME, { create: true });
+  const file = await fileHandle.getFile();
+  const content = file.size > 0 ? await file.text() : '';
+
+  const isChangedExternally = !!content && file.lastModified !== state.lastSyncedAt;
+  const external = isChangedExternally ? await readJournalFile(content) : null;
+  const incoming = external ? selectNewerEntries(entries, external.entries) : [];
+
+  const mergedByDate = new Map(entries.map((entry) => [entry.date, entry]));
+  incoming.forEach((entry) => mergedByDate.set(entry.date, entry));
+  const merged = Array.from(mergedByDate.values());
+
+  let lastSyncedAt = file.lastModified;
+  const checksum = await getBackupChecksum(merged, settings);
+  // A file nobody else touched still holds what this device wrote last
+  const fileChecksum = external ? external.checksum : content ? state.checksum : undefined;
+  if (checksum !== fileChecksum) {
+    const writable = await fileHandle.createWritable();
+    await writable.write(await createJournalFile(merged, settings));
+    await writable.close();
+    lastSyncedAt = (await fileHandle.getFile()).lastModified;
+  }
+
+  const nextState = { ...state, lastSyncedAt, checksum };
+  await writeMeta(FOLDER_SYNC_KEY, nextState);
+  return { incoming, state: nextState };
+};
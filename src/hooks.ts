@@ -1,73 +1,754 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
+import { MoodEntry, Settings, AppLockSettings, DEFAULT_SETTINGS } from './types';
+import { ImportResolution, isSameEntryContent, resolveConflict } from './utils';
+import { hashPin } from './crypto';
+import {
+  FolderSyncState,
+  isFolderSyncSupported,
+  loadFolderSync,
+  chooseSyncFolder,
+  disconnectSyncFolder,
+  ensureFolderPermission,
+  syncFolder,
+  selectNewerEntries,
+  readJournalFile,
+  createJournalFile,
+} from './folderSync';
+import { SyncServerState, loadSyncServer, connectSyncServer, disconnectSyncServer, syncWithServer } from './sync';
+import {
+  WebDavState,
+  WebDavChanges,
+  loadWebDav,
+  connectWebDav,
+  disconnectWebDav,
+  fetchRemoteJournal,
+  compareWithRemote,
+  mergeRemoteChanges,
+  acceptRemoteJournal,
+  pushJournal,
+} from './webdav';
+import {
+  loadJournal,
+  saveSettings,
+  writeEntryChanges,
+  diffEntries,
+  getStorageErrorMessage,
+  createTrashedEntries,
+  restoreTrashedEntries,
+  TrashedEntry,
+  takeScheduledSnapshots,
+  subscribeToJournalChanges,
+  readEntries,
+  readSettings,
+  unlockJournal,
+  lockJournal,
+  enableEncryption as enableStorageEncryption,
+  disableEncryption as disableStorageEncryption,
+} from './storage';
 
-export const useLocalStorage = <T>(
-  key: string,
-  initialValue: T
-): [T, (value: T | ((prev: T) => T)) => void] => {
-  const [storedValue, setStoredValue] = useState<T>(() => {
+export const useJournalStorage = (
+  onError: (message: string) => void,
+  onTrash?: (trashed: TrashedEntry[], undo: () => Promise<number>) => void
+) => {
+  const [entries, setEntriesState] = useState<MoodEntry[]>([]);
+  const [settings, setSettingsState] = useState<Settings>(DEFAULT_SETTINGS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isEncrypted, setIsEncrypted] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+
+  const entriesRef = useRef<MoodEntry[]>([]);
+  const settingsRef = useRef<Settings>(DEFAULT_SETTINGS);
+  const isLockedRef = useRef(false);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const onTrashRef = useRef(onTrash);
+  onTrashRef.current = onTrash;
+
+  const applyJournal = useCallback(async (isCancelled: () => boolean = () => false) => {
+    const journal = await loadJournal();
+    if (isCancelled()) return;
+
+    entriesRef.current = journal.entries;
+    settingsRef.current = journal.settings;
+    setEntriesState(journal.entries);
+    setSettingsState(journal.settings);
+    setIsEncrypted(journal.isEncrypted);
+    isLockedRef.current = journal.isLocked;
+    setIsLocked(journal.isLocked);
+
+    if (!journal.isLocked) {
+      takeScheduledSnapshots(journal.entries, journal.settings).catch((error) => {
+        onErrorRef.current(getStorageErrorMessage(error));
+      });
+    }
+
+    if (journal.quarantinedCount > 0) {
+      onErrorRef.current(
+        `${journal.quarantinedCount} unreadable record(s) were set aside instead of being loaded. ` +
+          'See Settings → Quarantine.'
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        await applyJournal(() => cancelled);
+      } catch (error) {
+        if (cancelled) return;
+        setLoadError(error instanceof Error ? error.message : 'Could not open the journal database.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [applyJournal]);
+
+  // Writes from other tabs are merged into state without being written back
+  useEffect(
+    () =>
+      subscribeToJournalChanges(async (change) => {
+        try {
+          if (change.type === 'encryption') {
+            lockJournal();
+            await applyJournal();
+          } else if (change.type === 'settings') {
+            const next = await readSettings();
+            settingsRef.current = next;
+            setSettingsState(next);
+          } else if (!isLockedRef.current) {
+            const remote = await readEntries(change.dates);
+            const byDate = new Map(entriesRef.current.map((entry) => [entry.date, entry]));
+            remote.forEach((entry, date) => (entry ? byDate.set(date, entry) : byDate.delete(date)));
+
+            const next = Array.from(byDate.values());
+            entriesRef.current = next;
+            setEntriesState(next);
+          }
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          onErrorRef.current(`Could not load changes from another tab: ${reason}`);
+        }
+      }),
+    [applyJournal]
+  );
+
+  // Throws on a wrong passphrase so the unlock screen can show it
+  const unlock = useCallback(
+    async (passphrase: string) => {
+      await unlockJournal(passphrase);
+      await applyJournal();
+    },
+    [applyJournal]
+  );
+
+  const lock = useCallback(() => {
+    lockJournal();
+    entriesRef.current = [];
+    setEntriesState([]);
+    isLockedRef.current = true;
+    setIsLocked(true);
+  }, []);
+
+  const enableEncryption = useCallback(async (passphrase: string) => {
+    await enableStorageEncryption(passphrase, entriesRef.current);
+    setIsEncrypted(true);
+  }, []);
+
+  const disableEncryption = useCallback(async (passphrase: string) => {
+    await disableStorageEncryption(passphrase, entriesRef.current);
+    setIsEncrypted(false);
+  }, []);
+
+  // Dates that were filled again since the deletion stay in the trash; returns how many were restored.
+  // A restore counts as an edit, so syncing does not bring the deletion back.
+  const restoreFromTrash = useCallback(async (trashed: TrashedEntry[]): Promise<number> => {
+    const existingDates = new Set(entriesRef.current.map((entry) => entry.date));
+    const updatedAt = Date.now();
+    const restorable = trashed
+      .filter(({ entry }) => {
+        if (existingDates.has(entry.date)) return false;
+        existingDates.add(entry.date);
+        return true;
+      })
+      .map((item) => ({ ...item, entry: { ...item.entry, updatedAt } }));
+    if (restorable.length === 0) return 0;
+
+    await restoreTrashedEntries(restorable);
+    const next = [...entriesRef.current, ...restorable.map(({ entry }) => entry)];
+    entriesRef.current = next;
+    setEntriesState(next);
+    return restorable.length;
+  }, []);
+
+  const setEntries = useCallback((value: React.SetStateAction<MoodEntry[]>) => {
+    const previous = entriesRef.current;
+    const proposed = typeof value === 'function' ? value(previous) : value;
+    if (proposed === previous) return;
+
+    const { changed: edited, removed } = diffEntries(previous, proposed);
+    const previousByDate = new Map(previous.map((entry) => [entry.date, entry]));
+    const updatedAt = Date.now();
+    // A copy with the same content is not an edit, so it keeps its timestamp and is not written again
+    const changed = edited.flatMap((entry) => {
+      const current = previousByDate.get(entry.date);
+      return current && isSameEntryContent(current, entry) ? [] : [{ ...entry, updatedAt }];
+    });
+    if (changed.length === 0 && removed.length === 0) return;
+
+    const changedByDate = new Map(changed.map((entry) => [entry.date, entry]));
+    const next = proposed.map((entry) => changedByDate.get(entry.date) ?? previousByDate.get(entry.date) ?? entry);
+
+    entriesRef.current = next;
+    setEntriesState(next);
+
+    const trashed = createTrashedEntries(removed);
+    writeEntryChanges(changed, trashed).catch((error) => {
+      onErrorRef.current(getStorageErrorMessage(error));
+    });
+    if (trashed.length > 0) onTrashRef.current?.(trashed, () => restoreFromTrash(trashed));
+  }, [restoreFromTrash]);
+
+  // Applies entries that were already edited elsewhere (a synced file or server) without restamping them.
+  // Removed dates still go to the trash, but without an undo toast since the user did not delete them here.
+  const mergeEntries = useCallback((incoming: MoodEntry[], removedDates: string[] = []) => {
+    const byDate = new Map(entriesRef.current.map((entry) => [entry.date, entry]));
+    const removed = removedDates.flatMap((date) => byDate.get(date) ?? []);
+    if (incoming.length === 0 && removed.length === 0) return;
+
+    removed.forEach((entry) => byDate.delete(entry.date));
+    incoming.forEach((entry) => byDate.set(entry.date, entry));
+    const next = Array.from(byDate.values());
+    entriesRef.current = next;
+    setEntriesState(next);
+
+    writeEntryChanges(incoming, createTrashedEntries(removed)).catch((error) => {
+      onErrorRef.current(getStorageErrorMessage(error));
+    });
+  }, []);
+
+  const setSettings = useCallback((value: React.SetStateAction<Settings>) => {
+    const next = typeof value === 'function' ? value(settingsRef.current) : value;
+    if (next === settingsRef.current) return;
+
+    settingsRef.current = next;
+    setSettingsState(next);
+
+    saveSettings(next).catch((error) => {
+      onErrorRef.current(getStorageErrorMessage(error));
+    });
+  }, []);
+
+  return {
+    entries,
+    setEntries,
+    settings,
+    setSettings,
+    isLoading,
+    loadError,
+    isEncrypted,
+    isLocked,
+    unlock,
+    lock,
+    enableEncryption,
+    disableEncryption,
+    restoreFromTrash,
+    mergeEntries,
+  };
+};
+
+const FOLDER_SYNC_DELAY = 2000;
+
+export const useFolderSync = (
+  entries: MoodEntry[],
+  settings: Settings,
+  isReady: boolean,
+  mergeEntries: (incoming: MoodEntry[]) => void,
+  onError: (message: string) => void
+) => {
+  const [folder, setFolder] = useState<FolderSyncState | null>(null);
+  const [needsPermission, setNeedsPermission] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const latestRef = useRef({ entries, settings, folder, mergeEntries, onError });
+  latestRef.current = { entries, settings, folder, mergeEntries, onError };
+  const isSyncingRef = useRef(false);
+  const isPendingRef = useRef(false);
+
+  const sync = useCallback(async (prompt: boolean) => {
+    const current = latestRef.current.folder;
+    if (!current) return;
+    if (isSyncingRef.current) {
+      isPendingRef.current = true;
+      return;
+    }
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
     try {
-      const item = window.localStorage.getItem(key);
-      if (!item) return initialValue;
+      if (!(await ensureFolderPermission(current.handle, prompt))) {
+        setNeedsPermission(true);
+        return;
+      }
+      setNeedsPermission(false);
 
-      const parsedValue = JSON.parse(item);
-      if (Array.isArray(initialValue) && Array.isArray(parsedValue)) {
-        return parsedValue;
+      const result = await syncFolder(current, latestRef.current.entries, latestRef.current.settings);
+      latestRef.current.mergeEntries(result.incoming);
+      setFolder(result.state);
+    } catch (error) {
+      latestRef.current.onError(error instanceof Error ? error.message : 'Folder sync failed.');
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+      if (isPendingRef.current) {
+        isPendingRef.current = false;
+        sync(false);
       }
-      if (typeof initialValue === 'object' && typeof parsedValue === 'object') {
-        return { ...initialValue, ...parsedValue };
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isReady || !isFolderSyncSupported()) return;
+    loadFolderSync()
+      .then((state) => state && setFolder(state))
+      .catch((error) => latestRef.current.onError(getStorageErrorMessage(error)));
+  }, [isReady]);
+
+  const handle = folder?.handle;
+  useEffect(() => {
+    if (!isReady || !handle) return;
+    const timeoutId = setTimeout(() => sync(false), FOLDER_SYNC_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [entries, settings, handle, isReady, sync]);
+
+  // Picks up edits made to the file while the app was in the background
+  useEffect(() => {
+    if (!isReady || !handle) return;
+    const handleFocus = () => sync(false);
+    window.addEventListener('focus', handleFocus);
+    return () => window.removeEventListener('focus', handleFocus);
+  }, [handle, isReady, sync]);
+
+  const connect = useCallback(async () => {
+    try {
+      setFolder(await chooseSyncFolder());
+      setNeedsPermission(false);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      throw error;
+    }
+  }, []);
+
+  const disconnect = useCallback(async () => {
+    await disconnectSyncFolder();
+    setFolder(null);
+    setNeedsPermission(false);
+  }, []);
+
+  const exportJournalFile = useCallback(
+    () => createJournalFile(latestRef.current.entries, latestRef.current.settings),
+    []
+  );
+
+  // Fallback for browsers without folder access: merges an uploaded journal file, newer edits win
+  const importJournalFile = useCallback(async (content: string): Promise<number> => {
+    const { entries } = await readJournalFile(content);
+    const incoming = selectNewerEntries(latestRef.current.entries, entries);
+    latestRef.current.mergeEntries(incoming);
+    return incoming.length;
+  }, []);
+
+  return {
+    isSupported: isFolderSyncSupported(),
+    folderName: folder?.handle.name ?? null,
+    lastSyncedAt: folder?.lastSyncedAt ?? 0,
+    needsPermission,
+    isSyncing,
+    connect,
+    disconnect,
+    syncNow: () => sync(true),
+    exportJournalFile,
+    importJournalFile,
+  };
+};
+
+export type FolderSync = ReturnType<typeof useFolderSync>;
+
+const REMOTE_SYNC_DELAY = 2000;
+const REMOTE_POLL_INTERVAL = 60 * 1000;
+
+export const useServerSync = (
+  entries: MoodEntry[],
+  isReady: boolean,
+  isEncrypted: boolean,
+  mergeEntries: (incoming: MoodEntry[], removedDates?: string[]) => void,
+  onError: (message: string) => void
+) => {
+  const [server, setServer] = useState<SyncServerState | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  const latestRef = useRef({ entries, server, mergeEntries });
+  latestRef.current = { entries, server, mergeEntries };
+  const isSyncingRef = useRef(false);
+  const isPendingRef = useRef(false);
+
+  // Background failures (offline, server down) only show in settings; syncNow reports them too
+  const sync = useCallback(async (): Promise<string | null> => {
+    const current = latestRef.current.server;
+    if (!current) return null;
+    if (isSyncingRef.current) {
+      isPendingRef.current = true;
+      return null;
+    }
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    let error: string | null = null;
+    try {
+      const result = await syncWithServer(current, latestRef.current.entries);
+      latestRef.current.mergeEntries(result.incoming, result.removed);
+      setServer(result.state);
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Sync failed.';
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+      setSyncError(error);
+      if (isPendingRef.current) {
+        isPendingRef.current = false;
+        sync();
       }
-      return parsedValue;
-    } catch {
-      window.localStorage.removeItem(key);
-      return initialValue;
     }
-  });
+    return error;
+  }, []);
 
-  const saveTimeoutRef = useRef<NodeJS.Timeout>();
-  const pendingValueRef = useRef<T | null>(null);
+  useEffect(() => {
+    if (!isReady) return;
+    loadSyncServer()
+      .then((state) => state && setServer(state))
+      .catch((error) => onError(getStorageErrorMessage(error)));
+  }, [isReady, onError]);
+
+  const url = server?.url;
+  // Stays connected while entries are encrypted, but nothing is sent until encryption is turned off
+  useEffect(() => {
+    if (!isReady || !url || isEncrypted) return;
+    const timeoutId = setTimeout(sync, REMOTE_SYNC_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [entries, url, isReady, isEncrypted, sync]);
 
   useEffect(() => {
+    if (!isReady || !url || isEncrypted) return;
+    const handleWake = () => sync();
+    const intervalId = setInterval(sync, REMOTE_POLL_INTERVAL);
+    window.addEventListener('focus', handleWake);
+    window.addEventListener('online', handleWake);
     return () => {
-      if (saveTimeoutRef.current) {
-        clearTimeout(saveTimeoutRef.current);
-        if (pendingValueRef.current !== null) {
-          try {
-            window.localStorage.setItem(key, JSON.stringify(pendingValueRef.current));
-          } catch {}
-        }
-      }
+      clearInterval(intervalId);
+      window.removeEventListener('focus', handleWake);
+      window.removeEventListener('online', handleWake);
     };
-  }, [key]);
+  }, [url, isReady, isEncrypted, sync]);
+
+  // Throws when the server cannot be reached, so the settings form can show why
+  const connect = useCallback(async (serverUrl: string, token: string) => {
+    setServer(await connectSyncServer(serverUrl, token));
+    setSyncError(null);
+  }, []);
+
+  const disconnect = useCallback(async () => {
+    await disconnectSyncServer();
+    setServer(null);
+    setSyncError(null);
+  }, []);
+
+  return {
+    serverUrl: url ?? null,
+    lastSyncedAt: server?.lastSyncedAt ?? 0,
+    isSyncing,
+    syncError,
+    isPausedByEncryption: isEncrypted,
+    connect,
+    disconnect,
+    syncNow: sync,
+  };
+};
+
+export type ServerSync = ReturnType<typeof useServerSync>;
+
+export const useWebDavSync = (
+  entries: MoodEntry[],
+  settings: Settings,
+  isReady: boolean,
+  mergeEntries: (incoming: MoodEntry[], removedDates?: string[]) => void,
+  onError: (message: string) => void
+) => {
+  const [server, setServer] = useState<WebDavState | null>(null);
+  const [pending, setPending] = useState<WebDavChanges | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  const latestRef = useRef({ entries, settings, server, pending, mergeEntries });
+  latestRef.current = { entries, settings, server, pending, mergeEntries };
+  const isSyncingRef = useRef(false);
+  const isQueuedRef = useRef(false);
 
-  const setValue = useCallback((value: T | ((prev: T) => T)) => {
+  // Runs one sync step at a time; returns the error message so syncNow can report it
+  const runExclusive = useCallback(async (step: () => Promise<void>): Promise<string | null> => {
+    if (isSyncingRef.current) {
+      isQueuedRef.current = true;
+      return null;
+    }
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    let error: string | null = null;
     try {
-      const newValue = typeof value === 'function' ? (value as (prev: T) => T)(storedValue) : value;
-      setStoredValue(newValue);
-      pendingValueRef.current = newValue;
+      await step();
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'WebDAV sync failed.';
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+      setSyncError(error);
+    }
+    return error;
+  }, []);
 
-      if (saveTimeoutRef.current) {
-        clearTimeout(saveTimeoutRef.current);
-      }
+  // A file changed by another device since `base` is picked up by the next sync instead of being overwritten
+  const push = useCallback(async (base: WebDavState, next: MoodEntry[]) => {
+    const pushed = await pushJournal(base, next, latestRef.current.settings);
+    if (pushed) setServer(pushed);
+  }, []);
 
-      saveTimeoutRef.current = setTimeout(() => {
-        try {
-          window.localStorage.setItem(key, JSON.stringify(newValue));
-          pendingValueRef.current = null;
-        } catch (error) {
-          if (error instanceof Error && error.name === 'QuotaExceededError') {
-            console.error('Storage quota exceeded');
+  // Conflicting dates pause syncing until they are resolved; syncNow checks the file again
+  const sync = useCallback(
+    async (force = false): Promise<string | null> => {
+      const { server: current, pending: unresolved } = latestRef.current;
+      if (!current || (unresolved && !force)) return null;
+
+      const error = await runExclusive(async () => {
+        const remote = await fetchRemoteJournal(current);
+        let base = current;
+        let next = latestRef.current.entries;
+
+        if (remote.etag !== current.etag) {
+          const changes = compareWithRemote(current, next, remote);
+          if (changes.conflicts.length > 0) {
+            setPending(changes);
+            return;
           }
+          latestRef.current.mergeEntries(changes.incoming, changes.removed);
+          next = mergeRemoteChanges(next, changes.incoming, changes.removed);
+          base = acceptRemoteJournal(current, remote);
         }
-      }, 100);
-    } catch (error) {
-      if (error instanceof Error && error.name === 'QuotaExceededError') {
-        throw new Error('Storage quota exceeded. Please clear some data or use smaller images.');
+
+        setPending(null);
+        await push(base, next);
+      });
+
+      if (isQueuedRef.current) {
+        isQueuedRef.current = false;
+        sync();
       }
-      throw error;
+      return error;
+    },
+    [runExclusive, push]
+  );
+
+  // Resolved dates count as new edits, so other devices take them over
+  const resolveConflicts = useCallback(
+    async (resolutions: Record<string, ImportResolution>): Promise<string | null> => {
+      const { server: current, pending: changes } = latestRef.current;
+      if (!current || !changes) return null;
+
+      const updatedAt = Date.now();
+      const resolved = changes.conflicts.map((conflict) => ({
+        ...resolveConflict(conflict, resolutions[conflict.date] ?? 'mine'),
+        updatedAt,
+      }));
+      const incoming = [...changes.incoming, ...resolved];
+
+      latestRef.current.mergeEntries(incoming, changes.removed);
+      const next = mergeRemoteChanges(latestRef.current.entries, incoming, changes.removed);
+      setPending(null);
+      return runExclusive(() => push(acceptRemoteJournal(current, changes.remote), next));
+    },
+    [runExclusive, push]
+  );
+
+  useEffect(() => {
+    if (!isReady) return;
+    loadWebDav()
+      .then((state) => state && setServer(state))
+      .catch((error) => onError(getStorageErrorMessage(error)));
+  }, [isReady, onError]);
+
+  const url = server?.url;
+  useEffect(() => {
+    if (!isReady || !url) return;
+    const timeoutId = setTimeout(() => sync(), REMOTE_SYNC_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [entries, settings, url, isReady, sync]);
+
+  useEffect(() => {
+    if (!isReady || !url) return;
+    const handleWake = () => sync();
+    const intervalId = setInterval(handleWake, REMOTE_POLL_INTERVAL);
+    window.addEventListener('focus', handleWake);
+    window.addEventListener('online', handleWake);
+    return () => {
+      clearInterval(intervalId);
+      window.removeEventListener('focus', handleWake);
+      window.removeEventListener('online', handleWake);
+    };
+  }, [url, isReady, sync]);
+
+  // Throws when the server cannot be reached or rejects the credentials, so the form can show why
+  const connect = useCallback(async (serverUrl: string, username: string, password: string) => {
+    setServer(await connectWebDav(serverUrl, username, password));
+    setPending(null);
+    setSyncError(null);
+  }, []);
+
+  const disconnect = useCallback(async () => {
+    await disconnectWebDav();
+    setServer(null);
+    setPending(null);
+    setSyncError(null);
+  }, []);
+
+  return {
+    fileUrl: url ?? null,
+    lastSyncedAt: server?.lastSyncedAt ?? 0,
+    isSyncing,
+    syncError,
+    conflicts: pending && pending.conflicts.length > 0 ? pending : null,
+    connect,
+    disconnect,
+    syncNow: () => sync(true),
+    resolveConflicts,
+  };
+};
+
+export type WebDavSync = ReturnType<typeof useWebDavSync>;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'] as const;
+const LOCKED_CLASS = 'app-locked';
+const LOCK_OVERLAY_CLASS = 'app-lock-overlay';
+const PIN_ATTEMPTS_KEY = 'mood-journal-pin-attempts';
+const FREE_PIN_ATTEMPTS = 3;
+const PIN_BACKOFF_MS = 5000;
+const MAX_PIN_BACKOFF_MS = 5 * 60 * 1000;
+
+// Kept in localStorage so reloading the page does not reset the wait
+const readPinAttempts = (): { failures: number; retryAt: number } => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(PIN_ATTEMPTS_KEY) || 'null');
+    return { failures: Number(stored?.failures) || 0, retryAt: Number(stored?.retryAt) || 0 };
+  } catch {
+    return { failures: 0, retryAt: 0 };
+  }
+};
+
+export const useAppLock = (appLock: AppLockSettings | undefined, isReady: boolean) => {
+  const [isAppLocked, setIsAppLocked] = useState(false);
+  const appLockRef = useRef(appLock);
+  appLockRef.current = appLock;
+
+  // The class is toggled synchronously so private content is blurred before the app-switcher snapshot
+  const lockApp = useCallback(() => {
+    if (!appLockRef.current) return;
+    document.documentElement.classList.add(LOCKED_CLASS);
+    setIsAppLocked(true);
+  }, []);
+
+  // After a few wrong PINs each further try has to wait twice as long as the last
+  const unlockApp = useCallback(async (pin: string) => {
+    const current = appLockRef.current;
+    const attempts = readPinAttempts();
+    const waitMs = attempts.retryAt - Date.now();
+    if (waitMs > 0) throw new Error(`Too many attempts. Try again in ${Math.ceil(waitMs / 1000)}s.`);
+
+    if (current && (await hashPin(pin, current.salt)) !== current.pinHash) {
+      const failures = attempts.failures + 1;
+      const backoffMs =
+        failures < FREE_PIN_ATTEMPTS
+          ? 0
+          : Math.min(PIN_BACKOFF_MS * 2 ** (failures - FREE_PIN_ATTEMPTS), MAX_PIN_BACKOFF_MS);
+      window.localStorage.setItem(PIN_ATTEMPTS_KEY, JSON.stringify({ failures, retryAt: Date.now() + backoffMs }));
+      throw new Error(backoffMs > 0 ? `Incorrect PIN. Try again in ${backoffMs / 1000}s.` : 'Incorrect PIN.');
     }
-  }, [storedValue, key]);
+    window.localStorage.removeItem(PIN_ATTEMPTS_KEY);
+    document.documentElement.classList.remove(LOCKED_CLASS);
+    setIsAppLocked(false);
+  }, []);
+
+  useEffect(() => {
+    if (isReady) lockApp();
+  }, [isReady, lockApp]);
+
+  useEffect(() => {
+    if (!appLock) {
+      document.documentElement.classList.remove(LOCKED_CLASS);
+      setIsAppLocked(false);
+    }
+  }, [appLock]);
+
+  useEffect(() => {
+    if (!appLock || isAppLocked || appLock.idleMinutes <= 0) return;
+
+    let timeoutId: ReturnType<typeof setTimeout>;
+    const resetTimer = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(lockApp, appLock.idleMinutes * 60 * 1000);
+    };
+
+    resetTimer();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timeoutId);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, resetTimer));
+    };
+  }, [appLock, isAppLocked, lockApp]);
+
+  // The lock screen is portalled to <body>; everything beside it leaves the focus order and the accessibility tree
+  useEffect(() => {
+    if (!isAppLocked) return;
+    const hidden = Array.from(document.body.children).filter(
+      (element): element is HTMLElement =>
+        element instanceof HTMLElement && !element.classList.contains(LOCK_OVERLAY_CLASS) && !element.inert
+    );
+    hidden.forEach((element) => {
+      element.inert = true;
+      element.setAttribute('aria-hidden', 'true');
+    });
+    return () =>
+      hidden.forEach((element) => {
+        element.inert = false;
+        element.removeAttribute('aria-hidden');
+      });
+  }, [isAppLocked]);
+
+  useEffect(() => {
+    if (!appLock?.lockOnHide) return;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') lockApp();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [appLock?.lockOnHide, lockApp]);
 
-  return [storedValue, setValue];
+  return { isAppLocked, lockApp, unlockApp };
 };
 
 export const useHistory = <T>(initialState: T, maxHistorySize = 20) => {
@@ -0,0 +1,203 @@
+import { MoodEntry, MoodColor, MoodLevel, CheckIn, NO_MOOD, DEFAULT_MOOD_SCALE } from './types';
+import { ActivityResolver, parseCsv, isValidDateKey, mergeDiaries, sortCheckIns } from './utils';
+
+export type SourceFormat = 'daylio' | 'generic';
+export type DateFormat = 'iso' | 'dmy' | 'mdy';
+
+export interface SourceTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ColumnMapping {
+  date: number;
+  mood: number;
+  diary: number[];
+  time: number;
+  activities: number;
+  dateFormat: DateFormat;
+}
+
+export type MoodMapping = Record<string, MoodColor>;
+
+interface ImportAdapter {
+  id: SourceFormat;
+  name: string;
+  detect: (headers: string[]) => boolean;
+  defaultColumns: (headers: string[]) => ColumnMapping;
+}
+
+const findColumn = (headers: string[], ...names: string[]): number => {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  for (const name of names) {
+    const index = normalized.indexOf(name);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+// Daylio exports one row per check-in: full_date,date,weekday,time,mood,activities,note_title,note
+const daylioAdapter: ImportAdapter = {
+  id: 'daylio',
+  name: 'Daylio CSV',
+  detect: (headers) => findColumn(headers, 'full_date') !== -1 && findColumn(headers, 'mood') !== -1,
+  defaultColumns: (headers) => ({
+    date: findColumn(headers, 'full_date'),
+    mood: findColumn(headers, 'mood'),
+    diary: [findColumn(headers, 'note_title'), findColumn(headers, 'note')].filter((index) => index !== -1),
+    time: findColumn(headers, 'time'),
+    activities: findColumn(headers, 'activities'),
+    dateFormat: 'iso',
+  }),
+};
+
+const genericAdapter: ImportAdapter = {
+  id: 'generic',
+  name: 'Generic CSV',
+  detect: () => true,
+  defaultColumns: (headers) => {
+    const diary = findColumn(headers, 'diary', 'note', 'notes', 'text', 'entry');
+    return {
+      date: Math.max(0, findColumn(headers, 'date', 'day', 'full_date')),
+      mood: findColumn(headers, 'mood', 'score', 'rating'),
+      diary: diary === -1 ? [] : [diary],
+      time: findColumn(headers, 'time'),
+      activities: findColumn(headers, 'activities', 'tags'),
+      dateFormat: 'iso',
+    };
+  },
+};
+
+export const IMPORT_ADAPTERS: readonly ImportAdapter[] = [daylioAdapter, genericAdapter];
+
+export const getAdapter = (id: SourceFormat): ImportAdapter =>
+  IMPORT_ADAPTERS.find((adapter) => adapter.id === id) ?? genericAdapter;
+
+export const detectSourceFormat = (headers: string[]): SourceFormat =>
+  (IMPORT_ADAPTERS.find((adapter) => adapter.detect(headers)) ?? genericAdapter).id;
+
+export const readSourceTable = (content: string): SourceTable => {
+  const [headers, ...rows] = parseCsv(content);
+  if (!headers || rows.length === 0) {
+    throw new Error('File is empty or contains no rows.');
+  }
+  return { headers: headers.map((header) => header.trim()), rows };
+};
+
+export const parseSourceDate = (value: string, format: DateFormat): string | undefined => {
+  const parts = value.trim().split(/[-/.\s]/).map(Number);
+  if (parts.length < 3 || parts.slice(0, 3).some(isNaN)) return undefined;
+
+  const [year, month, day] =
+    format === 'iso' ? parts : format === 'dmy' ? [parts[2], parts[1], parts[0]] : [parts[2], parts[0], parts[1]];
+  const date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return isValidDateKey(date) ? date : undefined;
+};
+
+// Converts "8:05 pm" or "20:05" into a sortable "20:05"
+export const normalizeTime = (value: string): string => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})\s*([ap]\.?m\.?)?$/i);
+  if (!match) return '';
+  let hours = Number(match[1]) % 24;
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem?.startsWith('p') && hours < 12) hours += 12;
+  if (meridiem?.startsWith('a') && hours === 12) hours = 0;
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+};
+
+export const getMoodValues = (table: SourceTable, mapping: ColumnMapping): string[] => {
+  if (mapping.mood === -1) return [];
+  const values = new Set(table.rows.map((row) => row[mapping.mood]?.trim() ?? '').filter(Boolean));
+  return Array.from(values).sort();
+};
+
+const DAYLIO_MOODS: Record<string, MoodColor> = {
+  awful: 'red',
+  bad: 'orange',
+  meh: 'yellow',
+  good: 'green',
+  rad: 'purple',
+};
+
+// `position` runs from 0 for the bottom of the scale to 1 for the top
+const getLevelAt = (scale: MoodLevel[], position: number): MoodColor =>
+  scale[Math.round(position * (scale.length - 1))].id;
+
+// Daylio's moods are named after the default scale; on another scale they go to the level at the same height
+const getDaylioMood = (name: string, scale: MoodLevel[]): MoodColor | undefined => {
+  const mood = DAYLIO_MOODS[name];
+  if (!mood || scale.some((level) => level.id === mood)) return mood;
+  const index = DEFAULT_MOOD_SCALE.findIndex((level) => level.id === mood);
+  return getLevelAt(scale, index / (DEFAULT_MOOD_SCALE.length - 1));
+};
+
+export const suggestMoodMapping = (values: string[], scale: MoodLevel[]): MoodMapping => {
+  const numbers = values.map(Number);
+  if (values.length > 0 && numbers.every((value) => !isNaN(value))) {
+    const min = Math.min(...numbers);
+    const max = Math.max(...numbers);
+    return Object.fromEntries(
+      values.map((value, i) => [value, getLevelAt(scale, max === min ? 0.5 : (numbers[i] - min) / (max - min))])
+    );
+  }
+
+  return Object.fromEntries(
+    values.map((value) => {
+      const key = value.toLowerCase();
+      const level = scale.find((candidate) => candidate.id === key || candidate.name.toLowerCase() === key);
+      return [value, level?.id ?? getDaylioMood(key, scale) ?? NO_MOOD];
+    })
+  );
+};
+
+// Rows sharing a date become one entry: the earliest row holds the day's own mood and note, and later rows with a
+// time become check-ins. Rows without a time are joined into the day's note. Activities of all rows apply to the day.
+export const convertSourceRows = (
+  table: SourceTable,
+  mapping: ColumnMapping,
+  moodMapping: MoodMapping,
+  activities: ActivityResolver
+): { entries: MoodEntry[]; skipped: number } => {
+  const byDate = new Map<string, CheckIn[]>();
+  const activitiesByDate = new Map<string, string[]>();
+  let skipped = 0;
+
+  table.rows.forEach((row) => {
+    const date = parseSourceDate(row[mapping.date] ?? '', mapping.dateFormat);
+    if (!date) {
+      skipped++;
+      return;
+    }
+
+    const mood = moodMapping[row[mapping.mood]?.trim() ?? ''] ?? NO_MOOD;
+    const time = normalizeTime(row[mapping.time] ?? '');
+    const diary = mapping.diary
+      .map((index) => row[index]?.trim() ?? '')
+      .filter(Boolean)
+      .join('\n')
+      .replace(/<br\s*\/?>/gi, '\n');
+
+    byDate.set(date, [...(byDate.get(date) ?? []), { time, mood, diary }]);
+    const activityIds = activities.resolve(row[mapping.activities] ?? '');
+    activitiesByDate.set(date, Array.from(new Set([...(activitiesByDate.get(date) ?? []), ...activityIds])));
+  });
+
+  const entries = Array.from(byDate, ([date, rows]): MoodEntry => {
+    const [first, ...rest] = sortCheckIns(rows);
+    const entry: MoodEntry = { date, mood: first.mood, diary: first.diary };
+    const checkIns: CheckIn[] = [];
+    rest.forEach((row) => {
+      if (row.time) {
+        checkIns.push(row);
+      } else {
+        entry.diary = mergeDiaries(entry.diary, row.diary);
+        if (entry.mood === NO_MOOD) entry.mood = row.mood;
+      }
+    });
+    if (checkIns.length > 0) entry.checkIns = checkIns;
+    const activityIds = activitiesByDate.get(date) ?? [];
+    return activityIds.length > 0 ? { ...entry, activities: activityIds } : entry;
+  });
+
+  return { entries, skipped };
+};
@@ -0,0 +1,255 @@
+import {
+  MoodEntry,
+  CheckIn,
+  Activity,
+  Tracker,
+  MoodLevel,
+  MetricKey,
+  Settings,
+  NO_MOOD,
+  METRICS,
+  METRIC_KEYS,
+  TRACKER_KINDS,
+  CHECK_IN_TIME_PATTERN,
+  DEFAULT_ACTIVITIES,
+  DEFAULT_MOOD_SCALE,
+} from './types';
+
+// Bump this and append to MIGRATIONS whenever the shape of MoodEntry or Settings changes.
+export const SCHEMA_VERSION = 6;
+
+// The fixed moods before the scale became configurable; their ids live on in DEFAULT_MOOD_SCALE
+const LEGACY_MOODS = [NO_MOOD, ...DEFAULT_MOOD_SCALE.map((level) => level.id)];
+
+// The settings defaults as they were at schema 1. Later migrations add their own fields, so what this one does
+// does not change along with DEFAULT_SETTINGS
+const V1_DEFAULT_SETTINGS = {
+  customColors: {
+    base: '#1e1e1e',
+    accent: '#d66a8c',
+    text: '#bababa',
+    moods: {
+      grey: '#78716c',
+      red: '#a63939',
+      orange: '#c25e28',
+      yellow: '#a98d00',
+      green: '#5b7d2a',
+      blue: '#2b748d',
+      purple: '#764398',
+    },
+  },
+  customLabels: {
+    grey: 'No Mood',
+    red: 'Terrible',
+    orange: 'Bad',
+    yellow: 'Okay',
+    green: 'Good',
+    blue: 'Great',
+    purple: 'Amazing',
+  },
+  isDarkMode: true,
+};
+
+export type Versioned<T> = T & { schemaVersion: number };
+
+type RawRecord = Record<string, unknown>;
+
+interface Migration {
+  version: number;
+  description: string;
+  entry?: (entry: RawRecord) => RawRecord;
+  settings?: (settings: RawRecord) => RawRecord;
+}
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCheckIn = (value: unknown): value is CheckIn =>
+  isRecord(value) &&
+  typeof value.time === 'string' &&
+  CHECK_IN_TIME_PATTERN.test(value.time) &&
+  typeof value.mood === 'string' &&
+  typeof value.diary === 'string';
+
+const isActivity = (value: unknown): value is Activity =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.emoji === 'string' &&
+  typeof value.category === 'string';
+
+const isTracker = (value: unknown): value is Tracker =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.emoji === 'string' &&
+  typeof value.kind === 'string' &&
+  Object.keys(TRACKER_KINDS).includes(value.kind) &&
+  typeof value.unit === 'string';
+
+const isTrackerValue = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+export const isMetricValue = (key: string, value: unknown): value is number => {
+  const metric = METRIC_KEYS.includes(key as MetricKey) ? METRICS[key as MetricKey] : undefined;
+  return !!metric && typeof value === 'number' && value >= metric.min && value <= metric.max;
+};
+
+type EntryDetails = { checkIns?: unknown; activities?: unknown; metrics?: unknown; trackers?: unknown };
+
+// For entries of the current schema, which skip the migrations that would clean up their optional fields
+export const hasValidEntryDetails = (entry: EntryDetails): boolean =>
+  (entry.checkIns === undefined || (Array.isArray(entry.checkIns) && entry.checkIns.every(isCheckIn))) &&
+  (entry.activities === undefined || isStringList(entry.activities)) &&
+  (entry.metrics === undefined ||
+    (isRecord(entry.metrics) && Object.entries(entry.metrics).every(([key, value]) => isMetricValue(key, value)))) &&
+  (entry.trackers === undefined || (isRecord(entry.trackers) && Object.values(entry.trackers).every(isTrackerValue)));
+
+// Ordered oldest to newest; each migration upgrades data from `version - 1` to `version`.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Normalize legacy entries and backfill nested settings defaults',
+    entry: (entry) => ({
+      date: entry.date,
+      mood: LEGACY_MOODS.includes(entry.mood as MoodEntry['mood']) ? entry.mood : NO_MOOD,
+      diary: typeof entry.diary === 'string' ? entry.diary : '',
+    }),
+    settings: (settings) => {
+      const customColors = isRecord(settings.customColors) ? settings.customColors : {};
+      return {
+        ...V1_DEFAULT_SETTINGS,
+        ...settings,
+        customColors: {
+          ...V1_DEFAULT_SETTINGS.customColors,
+          ...customColors,
+          moods: {
+            ...V1_DEFAULT_SETTINGS.customColors.moods,
+            ...(isRecord(customColors.moods) ? customColors.moods : {}),
+          },
+        },
+        customLabels: {
+          ...V1_DEFAULT_SETTINGS.customLabels,
+          ...(isRecord(settings.customLabels) ? settings.customLabels : {}),
+        },
+      };
+    },
+  },
+  {
+    version: 2,
+    description: 'Add timed check-ins to entries, dropping malformed ones',
+    entry: (entry) => {
+      const { checkIns, ...rest } = entry;
+      const valid = Array.isArray(checkIns) ? checkIns.filter(isCheckIn) : [];
+      return valid.length > 0 ? { ...rest, checkIns: valid.sort((a, b) => a.time.localeCompare(b.time)) } : rest;
+    },
+  },
+  {
+    version: 3,
+    description: 'Add activities to entries and the list of activities to settings',
+    entry: (entry) => {
+      const { activities, ...rest } = entry;
+      const ids = isStringList(activities) ? Array.from(new Set(activities)) : [];
+      return ids.length > 0 ? { ...rest, activities: ids } : rest;
+    },
+    settings: (settings) => ({
+      ...settings,
+      activities: Array.isArray(settings.activities) ? settings.activities.filter(isActivity) : DEFAULT_ACTIVITIES,
+    }),
+  },
+  {
+    version: 4,
+    description: 'Replace the fixed mood colors and labels with a configurable mood scale',
+    settings: (settings) => {
+      const { customLabels, ...rest } = settings;
+      const { moods, ...customColors } = isRecord(settings.customColors) ? settings.customColors : {};
+      const colors = isRecord(moods) ? moods : {};
+      const labels = isRecord(customLabels) ? customLabels : {};
+      const pick = (record: RawRecord, key: string, fallback: string): string =>
+        typeof record[key] === 'string' ? (record[key] as string) : fallback;
+
+      const moodScale: MoodLevel[] = DEFAULT_MOOD_SCALE.map((level) => ({
+        ...level,
+        name: pick(labels, level.id, level.name),
+        color: pick(colors, level.id, level.color),
+      }));
+      return {
+        ...rest,
+        customColors: {
+          ...customColors,
+          noMood: pick(colors, NO_MOOD, V1_DEFAULT_SETTINGS.customColors.moods.grey),
+        },
+        moodScale,
+      };
+    },
+  },
+  {
+    version: 5,
+    description: 'Add optional daily metrics to entries, dropping values out of range',
+    entry: (entry) => {
+      const { metrics, ...rest } = entry;
+      const source = isRecord(metrics) ? metrics : {};
+      const valid = Object.fromEntries(
+        METRIC_KEYS.filter((key) => isMetricValue(key, source[key])).map((key) => [key, source[key]])
+      );
+      return Object.keys(valid).length > 0 ? { ...rest, metrics: valid } : rest;
+    },
+  },
+  {
+    version: 6,
+    description: 'Add custom trackers to settings and their daily values to entries',
+    entry: (entry) => {
+      const { trackers, ...rest } = entry;
+      const valid = Object.entries(isRecord(trackers) ? trackers : {}).filter(([, value]) => isTrackerValue(value));
+      return valid.length > 0 ? { ...rest, trackers: Object.fromEntries(valid) } : rest;
+    },
+    settings: (settings) => ({
+      ...settings,
+      trackers: Array.isArray(settings.trackers) ? settings.trackers.filter(isTracker) : [],
+    }),
+  },
+];
+
+const getVersion = (record: RawRecord): number =>
+  typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+
+const runMigrations = (record: RawRecord, kind: 'entry' | 'settings'): RawRecord => {
+  const version = getVersion(record);
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Data was written by a newer version of the app (schema ${version}).`);
+  }
+
+  const { schemaVersion: _schemaVersion, ...data } = record;
+  return MIGRATIONS.filter((migration) => migration.version > version).reduce(
+    (current, migration) => migration[kind]?.(current) ?? current,
+    data as RawRecord
+  );
+};
+
+// Such data must be left alone: an older copy of the app (a cached tab, say) cannot read it, but the update can
+export const isNewerSchema = (record: unknown): boolean => isRecord(record) && getVersion(record) > SCHEMA_VERSION;
+
+export const needsMigration = (record: unknown): boolean =>
+  !isRecord(record) || getVersion(record) !== SCHEMA_VERSION;
+
+export const migrateEntry = (raw: unknown): MoodEntry => {
+  if (!isRecord(raw)) throw new Error('Entry is not an object.');
+
+  const entry = runMigrations(raw, 'entry');
+  if (typeof entry.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(entry.date)) {
+    throw new Error('Entry has no valid date.');
+  }
+  return entry as unknown as MoodEntry;
+};
+
+export const migrateSettings = (raw: unknown): Settings => {
+  if (!isRecord(raw)) throw new Error('Settings are not an object.');
+  return runMigrations(raw, 'settings') as unknown as Settings;
+};
+
+export const stampVersion = <T extends object>(data: T): Versioned<T> => ({
+  ...data,
+  schemaVersion: SCHEMA_VERSION,
+});
@@ -0,0 +1,174 @@
+import { MoodEntry, Settings, NO_MOOD, MONTH_NAMES, WEEKDAYS } from './types';
+import { formatDate, getDaysInMonth, getFirstDayOfMonth, isFutureDate, getDayMood, getMoodColor } from './utils';
+
+export interface PixelsOptions {
+  year: number;
+  month?: number; // 0-11, omit for the whole year
+  shape: 'square' | 'circle';
+  showFuture: boolean;
+}
+
+const CELL = 28;
+const GAP = 6;
+const PADDING = 40;
+const LABEL_WIDTH = 36;
+const TITLE_HEIGHT = 64;
+const HEADER_HEIGHT = 28;
+const LEGEND_ROW_HEIGHT = 32;
+const FONT = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+
+interface Cell {
+  x: number;
+  y: number;
+  date: Date;
+}
+
+const drawCell = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  color: string,
+  options: PixelsOptions,
+  outlined: boolean
+) => {
+  ctx.beginPath();
+  if (options.shape === 'circle') {
+    ctx.arc(x + CELL / 2, y + CELL / 2, CELL / 2 - 1, 0, Math.PI * 2);
+  } else {
+    ctx.roundRect(x, y, CELL, CELL, 4);
+  }
+
+  if (outlined) {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+  } else {
+    ctx.fillStyle = color;
+    ctx.fill();
+  }
+};
+
+const getYearLayout = (year: number) => {
+  const cells: Cell[] = [];
+  for (let month = 0; month < 12; month++) {
+    const days = getDaysInMonth(new Date(year, month, 1));
+    for (let day = 1; day <= days; day++) {
+      cells.push({
+        x: PADDING + LABEL_WIDTH + month * (CELL + GAP),
+        y: PADDING + TITLE_HEIGHT + HEADER_HEIGHT + (day - 1) * (CELL + GAP),
+        date: new Date(year, month, day),
+      });
+    }
+  }
+
+  const columnLabels = MONTH_NAMES.map((name) => name[0]);
+  const rowLabels = Array.from({ length: 31 }, (_, i) => String(i + 1));
+  const gridWidth = 12 * (CELL + GAP) - GAP;
+  const gridHeight = 31 * (CELL + GAP) - GAP;
+  return { cells, columnLabels, rowLabels, gridWidth, gridHeight, title: String(year) };
+};
+
+const getMonthLayout = (year: number, month: number) => {
+  const monthDate = new Date(year, month, 1);
+  const firstDay = getFirstDayOfMonth(monthDate);
+  const offset = firstDay === 0 ? 6 : firstDay - 1;
+  const days = getDaysInMonth(monthDate);
+
+  const cells: Cell[] = Array.from({ length: days }, (_, i) => {
+    const slot = offset + i;
+    return {
+      x: PADDING + LABEL_WIDTH + (slot % 7) * (CELL + GAP),
+      y: PADDING + TITLE_HEIGHT + HEADER_HEIGHT + Math.floor(slot / 7) * (CELL + GAP),
+      date: new Date(year, month, i + 1),
+    };
+  });
+
+  const rows = Math.ceil((offset + days) / 7);
+  return {
+    cells,
+    columnLabels: WEEKDAYS.map((day) => day[0]),
+    rowLabels: [] as string[],
+    gridWidth: 7 * (CELL + GAP) - GAP,
+    gridHeight: rows * (CELL + GAP) - GAP,
+    title: `${MONTH_NAMES[month]} ${year}`,
+  };
+};
+
+export const renderMoodPixels = (
+  canvas: HTMLCanvasElement,
+  entries: MoodEntry[],
+  settings: Settings,
+  options: PixelsOptions
+) => {
+  const layout =
+    options.month === undefined ? getYearLayout(options.year) : getMonthLayout(options.year, options.month);
+  const moods = settings.moodScale;
+  const legendColumns = 3;
+  const legendHeight = Math.ceil(moods.length / legendColumns) * LEGEND_ROW_HEIGHT;
+
+  const width = Math.max(PADDING * 2 + LABEL_WIDTH + layout.gridWidth, 420);
+  const height = PADDING * 2 + TITLE_HEIGHT + HEADER_HEIGHT + layout.gridHeight + GAP * 4 + legendHeight;
+  const ratio = 2;
+
+  canvas.width = width * ratio;
+  canvas.height = height * ratio;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.scale(ratio, ratio);
+
+  const { base, text } = settings.customColors;
+  ctx.fillStyle = base;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.fillStyle = text;
+  ctx.textBaseline = 'middle';
+  ctx.font = `bold 28px ${FONT}`;
+  ctx.textAlign = 'left';
+  ctx.fillText(layout.title, PADDING, PADDING + TITLE_HEIGHT / 2 - 8);
+
+  ctx.font = `12px ${FONT}`;
+  ctx.textAlign = 'center';
+  ctx.globalAlpha = 0.7;
+  const gridLeft = PADDING + LABEL_WIDTH;
+  const gridTop = PADDING + TITLE_HEIGHT + HEADER_HEIGHT;
+  layout.columnLabels.forEach((label, i) => {
+    ctx.fillText(label, gridLeft + i * (CELL + GAP) + CELL / 2, gridTop - HEADER_HEIGHT / 2 - 4);
+  });
+  ctx.textAlign = 'right';
+  layout.rowLabels.forEach((label, i) => {
+    ctx.fillText(label, gridLeft - 8, gridTop + i * (CELL + GAP) + CELL / 2);
+  });
+  ctx.globalAlpha = 1;
+
+  const entriesMap = new Map(entries.map((entry) => [entry.date, entry]));
+  layout.cells.forEach(({ x, y, date }) => {
+    const isFuture = isFutureDate(date);
+    if (isFuture && !options.showFuture) return;
+
+    const mood = getDayMood(entriesMap.get(formatDate(date)), settings);
+    ctx.globalAlpha = mood === NO_MOOD && !isFuture ? 0.35 : 1;
+    drawCell(ctx, x, y, getMoodColor(mood, settings), options, isFuture);
+  });
+  ctx.globalAlpha = 1;
+
+  const legendTop = gridTop + layout.gridHeight + GAP * 4;
+  const legendColumnWidth = (width - PADDING * 2) / legendColumns;
+  ctx.font = `13px ${FONT}`;
+  ctx.textAlign = 'left';
+  moods.forEach((level, i) => {
+    const x = PADDING + (i % legendColumns) * legendColumnWidth;
+    const y = legendTop + Math.floor(i / legendColumns) * LEGEND_ROW_HEIGHT;
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.scale(0.6, 0.6);
+    drawCell(ctx, 0, 0, level.color, options, false);
+    ctx.restore();
+    ctx.fillStyle = text;
+    ctx.fillText(level.name, x + CELL * 0.6 + 8, y + (CELL * 0.6) / 2);
+  });
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to create image'))), 'image/png');
+  });
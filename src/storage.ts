@@ -0,0 +1,1005 @@
+import { MoodEntry, MoodColor, Settings, DEFAULT_SETTINGS, DEFAULT_TRASH_RETENTION_DAYS } from './types';
+import { migrateEntry, migrateSettings, needsMigration, isNewerSchema, stampVersion } from './migrations';
+import {
+  EncryptionParams,
+  EncryptedPayload,
+  createEncryptionParams,
+  deriveKey,
+  encryptJson,
+  decryptJson,
+} from './crypto';
+import { isSameEntryContent } from './utils';
+
+const DB_NAME = 'mood-journal';
+const DB_VERSION = 6;
+
+const ENTRIES_STORE = 'entries';
+const META_STORE = 'meta';
+const QUARANTINE_STORE = 'quarantine';
+const TRASH_STORE = 'trash';
+const SNAPSHOTS_STORE = 'snapshots';
+const REVISIONS_STORE = 'revisions';
+const DRAFTS_STORE = 'drafts';
+
+const SETTINGS_KEY = 'settings';
+const LEGACY_MIGRATED_KEY = 'legacy-migrated';
+const ENCRYPTION_KEY = 'encryption';
+
+const LEGACY_ENTRIES_KEY = 'mood-entries';
+const LEGACY_SETTINGS_KEY = 'mood-settings';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        db.createObjectStore(ENTRIES_STORE, { keyPath: 'date' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+        db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(TRASH_STORE)) {
+        db.createObjectStore(TRASH_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+        db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(REVISIONS_STORE)) {
+        db.createObjectStore(REVISIONS_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('date', 'date');
+      }
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.createObjectStore(DRAFTS_STORE, { keyPath: 'date' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Database upgrade blocked. Please close other tabs of the journal.'));
+  }).catch((error) => {
+    databasePromise = null;
+    throw error;
+  });
+
+  return databasePromise;
+};
+
+export const getStorageErrorMessage = (error: unknown): string => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return 'Storage is full. Export a backup, then remove old entries or the background image.';
+  }
+  if (error instanceof Error && error.message) {
+    return `Could not save your journal: ${error.message}`;
+  }
+  return 'Could not save your journal.';
+};
+
+// Change notifications let other open tabs pick up writes instead of overwriting them later.
+// BroadcastChannel is preferred; a localStorage key is the fallback for browsers without it.
+
+export type JournalChange = { type: 'entries'; dates: string[] } | { type: 'settings' } | { type: 'encryption' };
+
+const CHANGE_CHANNEL = 'mood-journal-changes';
+
+let changeChannel: BroadcastChannel | null | undefined;
+
+const getChangeChannel = (): BroadcastChannel | null => {
+  if (changeChannel === undefined) {
+    changeChannel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANGE_CHANNEL);
+  }
+  return changeChannel;
+};
+
+const announceChange = (change: JournalChange) => {
+  const channel = getChangeChannel();
+  if (channel) {
+    channel.postMessage(change);
+    return;
+  }
+  try {
+    window.localStorage.setItem(CHANGE_CHANNEL, JSON.stringify({ ...change, nonce: Math.random() }));
+  } catch {
+    // Other tabs will see the change on their next reload
+  }
+};
+
+export const subscribeToJournalChanges = (listener: (change: JournalChange) => void): (() => void) => {
+  const channel = getChangeChannel();
+  if (channel) {
+    const handleMessage = (event: MessageEvent<JournalChange>) => listener(event.data);
+    channel.addEventListener('message', handleMessage);
+    return () => channel.removeEventListener('message', handleMessage);
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== CHANGE_CHANNEL || !event.newValue) return;
+    try {
+      listener(JSON.parse(event.newValue));
+    } catch {
+      // Ignore malformed notifications
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
+
+// Encryption at rest. Entry records keep their date in the clear (it is the store key) and hold the
+// rest of the entry as an AES-GCM payload. Settings stay readable so the unlock screen can be themed.
+
+interface EncryptionConfig extends EncryptionParams {
+  verifier: EncryptedPayload;
+}
+
+interface EncryptedEntryRecord {
+  date: string;
+  encrypted: EncryptedPayload;
+}
+
+const VERIFIER_VALUE = 'mood-journal';
+
+let journalKey: CryptoKey | null = null;
+let journalParams: EncryptionParams | null = null;
+
+const isEncryptedRecord = (raw: unknown): raw is EncryptedEntryRecord =>
+  typeof raw === 'object' && raw !== null && 'encrypted' in raw;
+
+const readEncryptionConfig = async (): Promise<EncryptionConfig | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(
+    db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(ENCRYPTION_KEY) as IDBRequest<
+      EncryptionConfig | undefined
+    >
+  );
+};
+
+const verifyPassphrase = async (passphrase: string, config: EncryptionConfig): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, config);
+  try {
+    if ((await decryptJson<string>(key, config.verifier)) !== VERIFIER_VALUE) throw new Error();
+  } catch {
+    throw new Error('Incorrect passphrase.');
+  }
+  return key;
+};
+
+const toStoredEntries = async (entries: MoodEntry[]): Promise<Array<MoodEntry | EncryptedEntryRecord>> => {
+  const key = journalKey;
+  if (!key) return entries.map((entry) => stampVersion(entry));
+  return Promise.all(
+    entries.map(async (entry) => ({ date: entry.date, encrypted: await encryptJson(key, stampVersion(entry)) }))
+  );
+};
+
+const fromStoredEntry = async (raw: unknown): Promise<unknown> => {
+  if (!isEncryptedRecord(raw)) return raw;
+  if (!journalKey) throw new Error('Journal is locked.');
+  return decryptJson(journalKey, raw.encrypted);
+};
+
+export const isEncryptionEnabled = async (): Promise<boolean> => !!(await readEncryptionConfig());
+
+// Every write of journal content checks this, since records written without the key would be stored in the clear
+const assertUnlocked = async (): Promise<void> => {
+  if (!journalKey && (await isEncryptionEnabled())) throw new Error('Journal is locked.');
+};
+
+export const getJournalEncryption = (): { key: CryptoKey; params: EncryptionParams } | null =>
+  journalKey && journalParams ? { key: journalKey, params: journalParams } : null;
+
+export const unlockJournal = async (passphrase: string): Promise<void> => {
+  const config = await readEncryptionConfig();
+  if (!config) return;
+  journalKey = await verifyPassphrase(passphrase, config);
+  journalParams = { salt: config.salt, iterations: config.iterations };
+};
+
+export const lockJournal = () => {
+  journalKey = null;
+  journalParams = null;
+};
+
+export const enableEncryption = async (passphrase: string, entries: MoodEntry[]): Promise<void> => {
+  const params = createEncryptionParams();
+  const key = await deriveKey(passphrase, params);
+  const config: EncryptionConfig = { ...params, verifier: await encryptJson(key, VERIFIER_VALUE) };
+
+  const protectedRecords = await recryptProtectedStores(null, key);
+  journalKey = key;
+  journalParams = params;
+  const records = await toStoredEntries(entries);
+
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [ENTRIES_STORE, META_STORE, TRASH_STORE, SNAPSHOTS_STORE, REVISIONS_STORE, DRAFTS_STORE, QUARANTINE_STORE],
+    'readwrite'
+  );
+  const entriesStore = transaction.objectStore(ENTRIES_STORE);
+  records.forEach((record) => entriesStore.put(record));
+  writeProtectedStores(transaction, protectedRecords);
+  transaction.objectStore(META_STORE).put(config, ENCRYPTION_KEY);
+
+  try {
+    await transactionDone(transaction);
+  } catch (error) {
+    lockJournal();
+    throw error;
+  }
+  announceChange({ type: 'encryption' });
+};
+
+export const disableEncryption = async (passphrase: string, entries: MoodEntry[]): Promise<void> => {
+  const config = await readEncryptionConfig();
+  if (!config) return;
+  const key = await verifyPassphrase(passphrase, config);
+  const protectedRecords = await recryptProtectedStores(key, null);
+
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [ENTRIES_STORE, META_STORE, TRASH_STORE, SNAPSHOTS_STORE, REVISIONS_STORE, DRAFTS_STORE, QUARANTINE_STORE],
+    'readwrite'
+  );
+  const entriesStore = transaction.objectStore(ENTRIES_STORE);
+  entries.forEach((entry) => entriesStore.put(stampVersion(entry)));
+  writeProtectedStores(transaction, protectedRecords);
+  transaction.objectStore(META_STORE).delete(ENCRYPTION_KEY);
+  await transactionDone(transaction);
+
+  lockJournal();
+  announceChange({ type: 'encryption' });
+};
+
+// Trash, snapshots, revisions, drafts and quarantine hold journal content too, so they follow the journal when
+// encryption is switched
+
+const decryptWith = <T>(key: CryptoKey | null, payload: EncryptedPayload): Promise<T> => {
+  if (!key) throw new Error('Journal is locked.');
+  return decryptJson<T>(key, payload);
+};
+
+interface ProtectedRecords {
+  trash: StoredTrashRecord[];
+  snapshots: StoredSnapshot[];
+  revisions: StoredRevision[];
+  drafts: StoredDraft[];
+  quarantine: StoredQuarantineRecord[];
+}
+
+const recryptEntryRecord = async (
+  record: MoodEntry | EncryptedEntryRecord,
+  fromKey: CryptoKey | null,
+  toKey: CryptoKey | null
+): Promise<MoodEntry | EncryptedEntryRecord> => {
+  const entry = isEncryptedRecord(record) ? await decryptWith<MoodEntry>(fromKey, record.encrypted) : record;
+  return toKey ? { date: entry.date, encrypted: await encryptJson(toKey, entry) } : entry;
+};
+
+const recryptProtectedStores = async (
+  fromKey: CryptoKey | null,
+  toKey: CryptoKey | null
+): Promise<ProtectedRecords> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [TRASH_STORE, SNAPSHOTS_STORE, REVISIONS_STORE, DRAFTS_STORE, QUARANTINE_STORE],
+    'readonly'
+  );
+  const [trash, snapshots, revisions, drafts, quarantine] = await Promise.all([
+    requestToPromise(transaction.objectStore(TRASH_STORE).getAll() as IDBRequest<StoredTrashRecord[]>),
+    requestToPromise(transaction.objectStore(SNAPSHOTS_STORE).getAll() as IDBRequest<StoredSnapshot[]>),
+    requestToPromise(transaction.objectStore(REVISIONS_STORE).getAll() as IDBRequest<StoredRevision[]>),
+    requestToPromise(transaction.objectStore(DRAFTS_STORE).getAll() as IDBRequest<StoredDraft[]>),
+    requestToPromise(transaction.objectStore(QUARANTINE_STORE).getAll() as IDBRequest<StoredQuarantineRecord[]>),
+  ]);
+
+  return {
+    trash: await Promise.all(
+      trash.map(async ({ record, ...item }) => ({ ...item, record: await recryptEntryRecord(record, fromKey, toKey) }))
+    ),
+    snapshots: await Promise.all(
+      snapshots.map(async ({ data, encrypted, ...info }) => {
+        const plain = encrypted ? await decryptWith<SnapshotData>(fromKey, encrypted) : (data as SnapshotData);
+        return { ...info, ...(await sealSnapshotData(plain, toKey)) };
+      })
+    ),
+    revisions: await Promise.all(
+      revisions.map(async ({ record, ...item }) => ({
+        ...item,
+        record: await recryptEntryRecord(record, fromKey, toKey),
+      }))
+    ),
+    drafts: await Promise.all(
+      drafts.map(async ({ record, ...item }) => ({ ...item, record: await recryptEntryRecord(record, fromKey, toKey) }))
+    ),
+    quarantine: await Promise.all(
+      quarantine.map(async (stored) => sealQuarantineRecord(await openQuarantineRecord(stored, fromKey), toKey))
+    ),
+  };
+};
+
+const writeProtectedStores = (transaction: IDBTransaction, records: ProtectedRecords) => {
+  const trashStore = transaction.objectStore(TRASH_STORE);
+  const snapshotsStore = transaction.objectStore(SNAPSHOTS_STORE);
+  const revisionsStore = transaction.objectStore(REVISIONS_STORE);
+  const draftsStore = transaction.objectStore(DRAFTS_STORE);
+  const quarantineStore = transaction.objectStore(QUARANTINE_STORE);
+  records.trash.forEach((record) => trashStore.put(record));
+  records.snapshots.forEach((snapshot) => snapshotsStore.put(snapshot));
+  records.revisions.forEach((revision) => revisionsStore.put(revision));
+  records.drafts.forEach((draft) => draftsStore.put(draft));
+  records.quarantine.forEach((record) => quarantineStore.put(record));
+};
+
+// Quarantine keeps data that could not be read or migrated instead of discarding it
+
+export interface QuarantinedRecord {
+  id?: number;
+  source: string;
+  raw: unknown;
+  reason: string;
+  quarantinedAt: number;
+}
+
+// In an encrypted journal the raw data is encrypted like everything else
+interface StoredQuarantineRecord extends Omit<QuarantinedRecord, 'raw'> {
+  raw?: unknown;
+  encrypted?: EncryptedPayload;
+}
+
+const toQuarantine = (source: string, raw: unknown, error: unknown): QuarantinedRecord => ({
+  source,
+  raw,
+  reason: error instanceof Error ? error.message : String(error),
+  quarantinedAt: Date.now(),
+});
+
+const sealQuarantineRecord = async (
+  record: QuarantinedRecord,
+  key: CryptoKey | null
+): Promise<StoredQuarantineRecord> => {
+  if (!key) return record;
+  const { raw, ...info } = record;
+  return { ...info, encrypted: await encryptJson(key, raw) };
+};
+
+// Entry records set aside while still encrypted are opened too where the key can, so they stay readable
+// after encryption is switched off
+const openQuarantineRecord = async (
+  { raw, encrypted, ...info }: StoredQuarantineRecord,
+  key: CryptoKey | null
+): Promise<QuarantinedRecord> => {
+  const data = encrypted ? await decryptWith<unknown>(key, encrypted) : raw;
+  if (!key || !isEncryptedRecord(data)) return { ...info, raw: data };
+  try {
+    return { ...info, raw: await decryptJson(key, data.encrypted) };
+  } catch {
+    return { ...info, raw: data };
+  }
+};
+
+export const loadQuarantine = async (): Promise<QuarantinedRecord[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(QUARANTINE_STORE, 'readonly').objectStore(QUARANTINE_STORE);
+  const stored = await requestToPromise(store.getAll() as IDBRequest<StoredQuarantineRecord[]>);
+  if (stored.some(({ encrypted }) => encrypted) && !journalKey) {
+    throw new Error('Unlock the journal to open the quarantine.');
+  }
+  return Promise.all(stored.map((record) => openQuarantineRecord(record, journalKey)));
+};
+
+// Loading
+
+export const loadJournal = async (): Promise<{
+  entries: MoodEntry[];
+  settings: Settings;
+  quarantinedCount: number;
+  isEncrypted: boolean;
+  isLocked: boolean;
+}> => {
+  await migrateLegacyStorage();
+
+  const db = await openDatabase();
+  const readTransaction = db.transaction([ENTRIES_STORE, META_STORE], 'readonly');
+  const [rawEntries, rawSettings, encryptionConfig] = await Promise.all([
+    requestToPromise(readTransaction.objectStore(ENTRIES_STORE).getAll()),
+    requestToPromise(readTransaction.objectStore(META_STORE).get(SETTINGS_KEY)),
+    requestToPromise(readTransaction.objectStore(META_STORE).get(ENCRYPTION_KEY)),
+  ]);
+
+  const isEncrypted = !!encryptionConfig;
+  const isLocked = isEncrypted && !journalKey;
+  const entries: MoodEntry[] = [];
+  const upgradedEntries: MoodEntry[] = [];
+  const quarantined: Array<{ key: string; record: QuarantinedRecord }> = [];
+
+  // Refuses to load before anything is written, so the newer app still finds all of its data
+  const refuseNewerSchema = (record: unknown) => {
+    if (isNewerSchema(record)) {
+      throw new Error('It was saved by a newer version of the app. Reload the page to update; nothing was changed.');
+    }
+  };
+  refuseNewerSchema(rawSettings);
+
+  if (!isLocked) {
+    for (const raw of rawEntries as Array<{ date: string }>) {
+      let decrypted: unknown;
+      try {
+        decrypted = await fromStoredEntry(raw);
+      } catch (error) {
+        quarantined.push({ key: raw.date, record: toQuarantine(ENTRIES_STORE, raw, error) });
+        continue;
+      }
+      refuseNewerSchema(decrypted);
+      try {
+        const entry = migrateEntry(decrypted);
+        entries.push(entry);
+        // Plain records found in an encrypted journal are rewritten encrypted
+        if (needsMigration(decrypted) || isEncryptedRecord(raw) !== isEncrypted) upgradedEntries.push(entry);
+      } catch (error) {
+        quarantined.push({ key: raw.date, record: toQuarantine(ENTRIES_STORE, raw, error) });
+      }
+    }
+  }
+
+  let settings = DEFAULT_SETTINGS;
+  let settingsUpgraded = false;
+  if (rawSettings !== undefined) {
+    try {
+      settings = migrateSettings(rawSettings);
+      settingsUpgraded = needsMigration(rawSettings);
+    } catch (error) {
+      quarantined.push({ key: SETTINGS_KEY, record: toQuarantine(META_STORE, rawSettings, error) });
+    }
+  }
+
+  await purgeExpiredTrash(settings.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS);
+
+  if (upgradedEntries.length > 0 || settingsUpgraded || quarantined.length > 0) {
+    const upgradedRecords = await toStoredEntries(upgradedEntries);
+    const quarantineRecords = await Promise.all(
+      quarantined.map(({ record }) => sealQuarantineRecord(record, journalKey))
+    );
+    const transaction = db.transaction([ENTRIES_STORE, META_STORE, QUARANTINE_STORE], 'readwrite');
+    const entriesStore = transaction.objectStore(ENTRIES_STORE);
+    const metaStore = transaction.objectStore(META_STORE);
+    const quarantineStore = transaction.objectStore(QUARANTINE_STORE);
+
+    upgradedRecords.forEach((record) => entriesStore.put(record));
+    if (settingsUpgraded) metaStore.put(stampVersion(settings), SETTINGS_KEY);
+    quarantined.forEach(({ key, record }, index) => {
+      quarantineStore.add(quarantineRecords[index]);
+      if (record.source === ENTRIES_STORE) entriesStore.delete(key);
+      else metaStore.delete(key);
+    });
+
+    await transactionDone(transaction);
+  }
+
+  return { entries, settings, quarantinedCount: quarantined.length, isEncrypted, isLocked };
+};
+
+// Entries
+
+export const writeEntryChanges = async (changed: MoodEntry[], trashed: TrashedEntry[]): Promise<void> => {
+  if (changed.length === 0 && trashed.length === 0) return;
+  await assertUnlocked();
+
+  // Encrypt before opening the transaction; it would auto-commit while awaiting Web Crypto
+  const records = await toStoredEntries(changed);
+  const trashRecords = await toStoredTrash(trashed);
+  const latestRevisions = await readLatestRevisions(changed.map(({ date }) => date));
+
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRIES_STORE, TRASH_STORE, REVISIONS_STORE], 'readwrite');
+  const store = transaction.objectStore(ENTRIES_STORE);
+  const trashStore = transaction.objectStore(TRASH_STORE);
+
+  trashed.forEach(({ entry }) => store.delete(entry.date));
+  trashRecords.forEach((record) => trashStore.put(record));
+  records.forEach((record) => store.put(record));
+  addRevisions(transaction, changed, records, latestRevisions);
+
+  await transactionDone(transaction);
+  announceChange({
+    type: 'entries',
+    dates: [...changed.map(({ date }) => date), ...trashed.map(({ entry }) => entry.date)],
+  });
+};
+
+// Reads the current records for the given dates; null means the date has no entry any more
+export const readEntries = async (dates: string[]): Promise<Map<string, MoodEntry | null>> => {
+  const db = await openDatabase();
+  const store = db.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE);
+  const records = await Promise.all(dates.map((date) => requestToPromise(store.get(date))));
+
+  const entries = new Map<string, MoodEntry | null>();
+  for (const [index, raw] of records.entries()) {
+    entries.set(dates[index], raw === undefined ? null : migrateEntry(await fromStoredEntry(raw)));
+  }
+  return entries;
+};
+
+export const diffEntries = (
+  previous: MoodEntry[],
+  next: MoodEntry[]
+): { changed: MoodEntry[]; removed: MoodEntry[] } => {
+  const previousByDate = new Map(previous.map((entry) => [entry.date, entry]));
+  const nextDates = new Set(next.map((entry) => entry.date));
+
+  const changed = next.filter((entry) => previousByDate.get(entry.date) !== entry);
+  const removed = previous.filter((entry) => !nextDates.has(entry.date));
+
+  return { changed, removed };
+};
+
+// Revisions keep every saved version of an entry, so older text can be compared and brought back
+
+const MAX_REVISIONS_PER_DATE = 50;
+
+interface StoredRevision {
+  id?: number;
+  date: string;
+  savedAt: number;
+  record: MoodEntry | EncryptedEntryRecord;
+}
+
+export interface EntryRevision {
+  id: number;
+  savedAt: number;
+  entry: MoodEntry;
+}
+
+// The newest revision of each date, read and decrypted ahead of the write that may add to it
+const readLatestRevisions = async (dates: string[]): Promise<Map<string, MoodEntry>> => {
+  const db = await openDatabase();
+  const index = db.transaction(REVISIONS_STORE, 'readonly').objectStore(REVISIONS_STORE).index('date');
+  const cursors = await Promise.all(
+    dates.map((date) => requestToPromise(index.openCursor(IDBKeyRange.only(date), 'prev')))
+  );
+
+  const latest = new Map<string, MoodEntry>();
+  for (const cursor of cursors) {
+    if (!cursor) continue;
+    const { date, record } = cursor.value as StoredRevision;
+    latest.set(date, migrateEntry(await fromStoredEntry(record)));
+  }
+  return latest;
+};
+
+// Runs inside the entry write, so a save and its revision are stored together; the oldest beyond the limit go.
+// A save that only repeats the latest revision (a synced copy coming back, say) adds nothing.
+const addRevisions = (
+  transaction: IDBTransaction,
+  changed: MoodEntry[],
+  records: Array<MoodEntry | EncryptedEntryRecord>,
+  latestRevisions: Map<string, MoodEntry>
+) => {
+  const store = transaction.objectStore(REVISIONS_STORE);
+  const dateIndex = store.index('date');
+
+  changed.forEach((entry, index) => {
+    const latest = latestRevisions.get(entry.date);
+    if (latest && isSameEntryContent(latest, entry)) return;
+
+    const revision: StoredRevision = {
+      date: entry.date,
+      savedAt: entry.updatedAt ?? Date.now(),
+      record: records[index],
+    };
+    store.add(revision);
+
+    const keysRequest = dateIndex.getAllKeys(IDBKeyRange.only(entry.date));
+    keysRequest.onsuccess = () => {
+      const keys = keysRequest.result;
+      keys.slice(0, Math.max(0, keys.length - MAX_REVISIONS_PER_DATE)).forEach((key) => store.delete(key));
+    };
+  });
+};
+
+// Newest first
+export const loadRevisions = async (date: string): Promise<EntryRevision[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(REVISIONS_STORE, 'readonly').objectStore(REVISIONS_STORE).index('date');
+  const stored = await requestToPromise(index.getAll(IDBKeyRange.only(date)) as IDBRequest<StoredRevision[]>);
+
+  const revisions = await Promise.all(
+    stored.map(async ({ id, savedAt, record }) => ({
+      id: id as number,
+      savedAt,
+      entry: migrateEntry(await fromStoredEntry(record)),
+    }))
+  );
+  return revisions.sort((a, b) => b.id - a.id);
+};
+
+// Drafts hold what is typed in the editor before it is saved, one per date, so a closed or crashed tab
+// does not lose it
+
+export interface EntryDraft {
+  date: string;
+  mood: MoodColor;
+  diary: string;
+  savedAt: number;
+}
+
+interface StoredDraft {
+  date: string;
+  savedAt: number;
+  record: MoodEntry | EncryptedEntryRecord;
+}
+
+export const saveDraft = async ({ date, mood, diary, savedAt }: EntryDraft): Promise<void> => {
+  await assertUnlocked();
+  const [record] = await toStoredEntries([{ date, mood, diary }]);
+
+  const db = await openDatabase();
+  const transaction = db.transaction(DRAFTS_STORE, 'readwrite');
+  const draft: StoredDraft = { date, savedAt, record };
+  transaction.objectStore(DRAFTS_STORE).put(draft);
+  await transactionDone(transaction);
+};
+
+export const loadDraft = async (date: string): Promise<EntryDraft | undefined> => {
+  const db = await openDatabase();
+  const store = db.transaction(DRAFTS_STORE, 'readonly').objectStore(DRAFTS_STORE);
+  const stored = await requestToPromise(store.get(date) as IDBRequest<StoredDraft | undefined>);
+  if (!stored) return undefined;
+
+  const { mood, diary } = migrateEntry(await fromStoredEntry(stored.record));
+  return { date, mood, diary, savedAt: stored.savedAt };
+};
+
+export const deleteDraft = async (date: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(DRAFTS_STORE, 'readwrite');
+  transaction.objectStore(DRAFTS_STORE).delete(date);
+  await transactionDone(transaction);
+};
+
+// Trash keeps deleted entries until they are restored, purged by hand or expire
+
+export interface TrashedEntry {
+  id: string;
+  entry: MoodEntry;
+  deletedAt: number;
+}
+
+interface StoredTrashRecord {
+  id: string;
+  deletedAt: number;
+  record: MoodEntry | EncryptedEntryRecord;
+}
+
+export const createTrashedEntries = (entries: MoodEntry[], deletedAt = Date.now()): TrashedEntry[] =>
+  entries.map((entry) => ({ id: `${entry.date}@${deletedAt}`, entry, deletedAt }));
+
+const toStoredTrash = async (trashed: TrashedEntry[]): Promise<StoredTrashRecord[]> => {
+  const records = await toStoredEntries(trashed.map(({ entry }) => entry));
+  return trashed.map(({ id, deletedAt }, index) => ({ id, deletedAt, record: records[index] }));
+};
+
+export const loadTrash = async (): Promise<TrashedEntry[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(TRASH_STORE, 'readonly').objectStore(TRASH_STORE);
+  const stored = await requestToPromise(store.getAll() as IDBRequest<StoredTrashRecord[]>);
+
+  const trashed = await Promise.all(
+    stored.map(async ({ id, deletedAt, record }) => ({
+      id,
+      deletedAt,
+      entry: migrateEntry(await fromStoredEntry(record)),
+    }))
+  );
+  return trashed.sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
+export const restoreTrashedEntries = async (trashed: TrashedEntry[]): Promise<void> => {
+  await assertUnlocked();
+  const records = await toStoredEntries(trashed.map(({ entry }) => entry));
+
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRIES_STORE, TRASH_STORE], 'readwrite');
+  const entriesStore = transaction.objectStore(ENTRIES_STORE);
+  const trashStore = transaction.objectStore(TRASH_STORE);
+
+  records.forEach((record) => entriesStore.put(record));
+  trashed.forEach(({ id }) => trashStore.delete(id));
+
+  await transactionDone(transaction);
+  announceChange({ type: 'entries', dates: trashed.map(({ entry }) => entry.date) });
+};
+
+// Once an entry leaves the trash for good its revisions go too. Only those saved before it was deleted, since a
+// later entry for the same date keeps its own history.
+const deleteTrashedRevisions = (transaction: IDBTransaction, trashIds: string[]) => {
+  const dateIndex = transaction.objectStore(REVISIONS_STORE).index('date');
+
+  trashIds.forEach((id) => {
+    const [date, deletedAt] = id.split('@');
+    const request = dateIndex.openCursor(IDBKeyRange.only(date));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if ((cursor.value as StoredRevision).savedAt <= Number(deletedAt)) cursor.delete();
+      cursor.continue();
+    };
+  });
+};
+
+export const deleteFromTrash = async (ids: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([TRASH_STORE, REVISIONS_STORE], 'readwrite');
+  const store = transaction.objectStore(TRASH_STORE);
+  ids.forEach((id) => store.delete(id));
+  deleteTrashedRevisions(transaction, ids);
+  await transactionDone(transaction);
+};
+
+export const emptyTrash = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([TRASH_STORE, REVISIONS_STORE], 'readwrite');
+  const store = transaction.objectStore(TRASH_STORE);
+  deleteTrashedRevisions(transaction, (await requestToPromise(store.getAllKeys())) as string[]);
+  store.clear();
+  await transactionDone(transaction);
+};
+
+const purgeExpiredTrash = async (retentionDays: number): Promise<void> => {
+  if (retentionDays <= 0) return;
+
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const db = await openDatabase();
+  const transaction = db.transaction([TRASH_STORE, REVISIONS_STORE], 'readwrite');
+  const store = transaction.objectStore(TRASH_STORE);
+  const stored = await requestToPromise(store.getAll() as IDBRequest<StoredTrashRecord[]>);
+  const expiredIds = stored.filter(({ deletedAt }) => deletedAt < cutoff).map(({ id }) => id);
+  expiredIds.forEach((id) => store.delete(id));
+  deleteTrashedRevisions(transaction, expiredIds);
+  await transactionDone(transaction);
+};
+
+// Snapshots are full copies of entries and settings, kept apart from the live data as restore points
+
+export type SnapshotKind = 'daily' | 'weekly' | 'pre-import' | 'pre-delete' | 'pre-restore' | 'pre-scale-change';
+
+export interface SnapshotInfo {
+  id: number;
+  kind: SnapshotKind;
+  createdAt: number;
+  entryCount: number;
+  size: number; // bytes of the stored payload
+}
+
+export interface SnapshotData {
+  entries: MoodEntry[];
+  settings: Settings;
+}
+
+interface StoredSnapshot extends Omit<SnapshotInfo, 'id'> {
+  id?: number;
+  data?: SnapshotData;
+  encrypted?: EncryptedPayload;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How many snapshots of each kind are kept; the oldest are pruned first
+const SNAPSHOT_LIMITS: Record<SnapshotKind, number> = {
+  daily: 7,
+  weekly: 4,
+  'pre-import': 5,
+  'pre-delete': 5,
+  'pre-restore': 3,
+  'pre-scale-change': 3,
+};
+
+const SCHEDULED_SNAPSHOTS: Array<{ kind: SnapshotKind; interval: number }> = [
+  { kind: 'daily', interval: DAY_MS },
+  { kind: 'weekly', interval: 7 * DAY_MS },
+];
+
+const sealSnapshotData = async (
+  data: SnapshotData,
+  key: CryptoKey | null
+): Promise<Pick<StoredSnapshot, 'data' | 'encrypted' | 'size'>> => {
+  if (!key) return { data, size: new TextEncoder().encode(JSON.stringify(data)).length };
+  const encrypted = await encryptJson(key, data);
+  return { encrypted, size: encrypted.data.length };
+};
+
+const toSnapshotInfo = ({ id, kind, createdAt, entryCount, size }: StoredSnapshot): SnapshotInfo => ({
+  id: id as number,
+  kind,
+  createdAt,
+  entryCount,
+  size,
+});
+
+const readStoredSnapshots = async (): Promise<StoredSnapshot[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE);
+  const snapshots = await requestToPromise(store.getAll() as IDBRequest<StoredSnapshot[]>);
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const loadSnapshots = async (): Promise<SnapshotInfo[]> => (await readStoredSnapshots()).map(toSnapshotInfo);
+
+export const createSnapshot = async (kind: SnapshotKind, entries: MoodEntry[], settings: Settings): Promise<void> => {
+  await assertUnlocked();
+  const data: SnapshotData = {
+    entries: entries.map((entry) => stampVersion(entry)),
+    settings: stampVersion(settings),
+  };
+  const snapshot: StoredSnapshot = {
+    kind,
+    createdAt: Date.now(),
+    entryCount: entries.length,
+    ...(await sealSnapshotData(data, journalKey)),
+  };
+
+  const existing = (await readStoredSnapshots()).filter((stored) => stored.kind === kind);
+  const expired = existing.slice(SNAPSHOT_LIMITS[kind] - 1);
+
+  const db = await openDatabase();
+  const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  const store = transaction.objectStore(SNAPSHOTS_STORE);
+  store.add(snapshot);
+  expired.forEach(({ id }) => store.delete(id as number));
+  await transactionDone(transaction);
+};
+
+// Empty journals are skipped so a run of blank days cannot roll the useful snapshots away
+export const takeScheduledSnapshots = async (entries: MoodEntry[], settings: Settings): Promise<void> => {
+  if (entries.length === 0) return;
+
+  const snapshots = await readStoredSnapshots();
+  for (const { kind, interval } of SCHEDULED_SNAPSHOTS) {
+    const latest = snapshots.find((snapshot) => snapshot.kind === kind);
+    if (!latest || Date.now() - latest.createdAt >= interval) {
+      await createSnapshot(kind, entries, settings);
+    }
+  }
+};
+
+export const loadSnapshotData = async (id: number): Promise<SnapshotData> => {
+  const db = await openDatabase();
+  const store = db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE);
+  const snapshot = await requestToPromise(store.get(id) as IDBRequest<StoredSnapshot | undefined>);
+  if (!snapshot) throw new Error('Snapshot not found.');
+
+  let data = snapshot.data;
+  if (snapshot.encrypted) {
+    if (!journalKey) throw new Error('Unlock the journal to open this snapshot.');
+    data = await decryptJson<SnapshotData>(journalKey, snapshot.encrypted);
+  }
+  if (!data) throw new Error('Snapshot is empty.');
+
+  return { entries: data.entries.map((entry) => migrateEntry(entry)), settings: migrateSettings(data.settings) };
+};
+
+export const deleteSnapshot = async (id: number): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  transaction.objectStore(SNAPSHOTS_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+// Small values kept next to the settings, such as the folder sync handle
+
+export const readMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const store = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+  return requestToPromise(store.get(key) as IDBRequest<T | undefined>);
+};
+
+export const writeMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).put(value, key);
+  await transactionDone(transaction);
+};
+
+export const deleteMeta = async (key: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).delete(key);
+  await transactionDone(transaction);
+};
+
+// Settings
+
+export const saveSettings = async (settings: Settings): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).put(stampVersion(settings), SETTINGS_KEY);
+  await transactionDone(transaction);
+  announceChange({ type: 'settings' });
+};
+
+export const readSettings = async (): Promise<Settings> => {
+  const db = await openDatabase();
+  const raw = await requestToPromise(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(SETTINGS_KEY));
+  return raw === undefined ? DEFAULT_SETTINGS : migrateSettings(raw);
+};
+
+// One-time migration from the localStorage keys used before IndexedDB
+
+const readLegacyValue = (key: string): { value?: unknown; error?: unknown; raw: string | null } => {
+  const raw = window.localStorage.getItem(key);
+  if (!raw) return { raw };
+  try {
+    return { raw, value: JSON.parse(raw) };
+  } catch (error) {
+    return { raw, error };
+  }
+};
+
+const migrateLegacyStorage = async (): Promise<void> => {
+  const db = await openDatabase();
+  const alreadyMigrated = await requestToPromise(
+    db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(LEGACY_MIGRATED_KEY)
+  );
+  if (alreadyMigrated) return;
+
+  const legacyEntries = readLegacyValue(LEGACY_ENTRIES_KEY);
+  const legacySettings = readLegacyValue(LEGACY_SETTINGS_KEY);
+
+  const transaction = db.transaction([ENTRIES_STORE, META_STORE, QUARANTINE_STORE], 'readwrite');
+  const entriesStore = transaction.objectStore(ENTRIES_STORE);
+  const metaStore = transaction.objectStore(META_STORE);
+  const quarantineStore = transaction.objectStore(QUARANTINE_STORE);
+
+  if (legacyEntries.error || (legacyEntries.raw && !Array.isArray(legacyEntries.value))) {
+    quarantineStore.add(
+      toQuarantine(`localStorage:${LEGACY_ENTRIES_KEY}`, legacyEntries.raw, legacyEntries.error || 'Not an entry list.')
+    );
+  } else if (Array.isArray(legacyEntries.value)) {
+    legacyEntries.value.forEach((raw) => {
+      try {
+        entriesStore.put(stampVersion(migrateEntry(raw)));
+      } catch (error) {
+        quarantineStore.add(toQuarantine(`localStorage:${LEGACY_ENTRIES_KEY}`, raw, error));
+      }
+    });
+  }
+
+  if (legacySettings.raw) {
+    try {
+      if (legacySettings.error) throw legacySettings.error;
+      metaStore.put(stampVersion(migrateSettings(legacySettings.value)), SETTINGS_KEY);
+    } catch (error) {
+      quarantineStore.add(toQuarantine(`localStorage:${LEGACY_SETTINGS_KEY}`, legacySettings.raw, error));
+    }
+  }
+
+  metaStore.put(Date.now(), LEGACY_MIGRATED_KEY);
+
+  await transactionDone(transaction);
+
+  window.localStorage.removeItem(LEGACY_ENTRIES_KEY);
+  window.localStorage.removeItem(LEGACY_SETTINGS_KEY);
+};
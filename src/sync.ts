@@ -0,0 +1,158 @@
+// Client side of the journal sync protocol (see server/README.md): pushes local edits and deletions to a
+// self-hosted sync server and pulls everything that changed there since the last sync.
+import { MoodEntry } from './types';
+import { isValidDateKey } from './utils';
+import { migrateEntry, stampVersion, hasValidEntryDetails, SCHEMA_VERSION, Versioned } from './migrations';
+import { readMeta, writeMeta, deleteMeta, loadTrash, isEncryptionEnabled } from './storage';
+
+const SYNC_SERVER_KEY = 'sync-server';
+
+export interface SyncChange {
+  date: string;
+  updatedAt: number;
+  entry?: Versioned<MoodEntry>;
+  deleted?: true;
+}
+
+export interface SyncRecord extends SyncChange {
+  rev: number;
+}
+
+export interface SyncServerState {
+  url: string;
+  token: string;
+  revision: number; // highest server revision this device has seen
+  synced: Record<string, number>; // updatedAt of every date as of the last sync, to detect local deletions
+  lastSyncedAt: number;
+}
+
+export const loadSyncServer = (): Promise<SyncServerState | undefined> => readMeta<SyncServerState>(SYNC_SERVER_KEY);
+
+export const connectSyncServer = async (url: string, token: string): Promise<SyncServerState> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error('Enter the full server address, e.g. http://localhost:8787.');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('The server address must start with http:// or https://.');
+  }
+
+  const state: SyncServerState = {
+    url: parsed.href.replace(/\/+$/, ''),
+    token: token.trim(),
+    revision: 0,
+    synced: {},
+    lastSyncedAt: 0,
+  };
+  await requestSync(state, []);
+  await writeMeta(SYNC_SERVER_KEY, state);
+  return state;
+};
+
+export const disconnectSyncServer = (): Promise<void> => deleteMeta(SYNC_SERVER_KEY);
+
+// Entries edited since the last sync, plus tombstones for synced dates that are gone locally.
+// A deletion is stamped with the time the entry went to the trash, so an edit made elsewhere later still wins.
+const collectLocalChanges = async (state: SyncServerState, entries: MoodEntry[]): Promise<SyncChange[]> => {
+  const localDates = new Set(entries.map((entry) => entry.date));
+  const changes: SyncChange[] = entries
+    .filter((entry) => !(entry.date in state.synced) || (entry.updatedAt ?? 0) > state.synced[entry.date])
+    .map((entry) => ({ date: entry.date, updatedAt: entry.updatedAt ?? 0, entry: stampVersion(entry) }));
+
+  const deletedDates = Object.keys(state.synced).filter((date) => !localDates.has(date));
+  if (deletedDates.length > 0) {
+    const deletedAt = new Map<string, number>();
+    (await loadTrash()).forEach(({ entry, deletedAt: time }) => {
+      deletedAt.set(entry.date, Math.max(deletedAt.get(entry.date) ?? 0, time));
+    });
+    const now = Date.now();
+    deletedDates.forEach((date) => changes.push({ date, updatedAt: deletedAt.get(date) ?? now, deleted: true }));
+  }
+
+  return changes;
+};
+
+const requestSync = async (
+  state: SyncServerState,
+  changes: SyncChange[]
+): Promise<{ revision: number; changes: SyncRecord[] }> => {
+  let response: Response;
+  try {
+    response = await fetch(`${state.url}/sync`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(state.token ? { Authorization: `Bearer ${state.token}` } : {}),
+      },
+      body: JSON.stringify({ since: state.revision, changes }),
+    });
+  } catch {
+    throw new Error('Could not reach the sync server.');
+  }
+
+  if (response.status === 401) throw new Error('The sync server rejected the access token.');
+  if (!response.ok) throw new Error(`The sync server answered with an error (${response.status}).`);
+
+  const body = await response.json().catch(() => null);
+  if (!body || typeof body.revision !== 'number' || !Array.isArray(body.changes)) {
+    throw new Error('The sync server sent a response this app does not understand.');
+  }
+  return body;
+};
+
+const isUsableRecord = (record: SyncRecord): boolean => {
+  if (!record || !isValidDateKey(record.date) || typeof record.updatedAt !== 'number') return false;
+  if (record.deleted) return true;
+  const { entry } = record;
+  return (
+    !!entry &&
+    entry.date === record.date &&
+    typeof entry.mood === 'string' &&
+    hasValidEntryDetails(entry) &&
+    (entry.schemaVersion ?? 0) <= SCHEMA_VERSION
+  );
+};
+
+// The protocol carries entries as plain JSON, so an encrypted journal must not be sent
+export const SYNC_PAUSED_BY_ENCRYPTION =
+  'Server sync is off while entries are encrypted, since the server would receive them unencrypted.';
+
+// One round trip: send local changes, then apply what the server has that is newer than the local copy.
+// Per date the later updatedAt wins, for edits and deletions alike.
+export const syncWithServer = async (
+  state: SyncServerState,
+  entries: MoodEntry[]
+): Promise<{ incoming: MoodEntry[]; removed: string[]; state: SyncServerState }> => {
+  if (await isEncryptionEnabled()) throw new Error(SYNC_PAUSED_BY_ENCRYPTION);
+  const response = await requestSync(state, await collectLocalChanges(state, entries));
+
+  const byDate = new Map(entries.map((entry) => [entry.date, entry]));
+  const incoming: MoodEntry[] = [];
+  const removed: string[] = [];
+
+  response.changes.filter(isUsableRecord).forEach((record) => {
+    const current = byDate.get(record.date);
+    if (current && (current.updatedAt ?? 0) >= record.updatedAt) return;
+
+    if (record.deleted) {
+      if (!current) return;
+      byDate.delete(record.date);
+      removed.push(record.date);
+    } else {
+      const entry = { ...migrateEntry(record.entry), updatedAt: record.updatedAt };
+      byDate.set(record.date, entry);
+      incoming.push(entry);
+    }
+  });
+
+  const synced: Record<string, number> = {};
+  byDate.forEach((entry, date) => {
+    synced[date] = entry.updatedAt ?? 0;
+  });
+
+  const nextState = { ...state, revision: response.revision, synced, lastSyncedAt: Date.now() };
+  await writeMeta(SYNC_SERVER_KEY, nextState);
+  return { incoming, removed, state: nextState };
+};
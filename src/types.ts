@@ -2,37 +2,130 @@ export interface MoodEntry {
   date: string; // YYYY-MM-DD
   mood: MoodColor;
   diary: string;
+  updatedAt?: number; // ms since epoch of the last local edit, used to merge copies of the journal
+  checkIns?: CheckIn[]; // further moods logged during the day, sorted by time
+  activities?: string[]; // ids of the Activity records in Settings
+  metrics?: EntryMetrics;
+  trackers?: Record<string, number>; // by Tracker id, only the trackers recorded that day; yes/no stores 1
 }
 
-export type MoodColor = 'grey' | 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple';
+export interface CheckIn {
+  time: string; // HH:MM
+  mood: MoodColor;
+  diary: string;
+}
+
+export type MetricKey = 'energy' | 'anxiety' | 'sleep';
+export type EntryMetrics = Partial<Record<MetricKey, number>>; // only the metrics recorded that day
+
+export interface MetricDefinition {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+}
+
+export interface MoodLevel {
+  id: string;
+  name: string;
+  color: string;
+  emoji: string;
+  value: number; // orders the scale and feeds averages and spreadsheets; higher is better
+}
+
+export interface Activity {
+  id: string;
+  name: string;
+  emoji: string;
+  category: string;
+}
+
+export type TrackerKind = 'boolean' | 'count' | 'number';
+
+export interface Tracker {
+  id: string;
+  name: string;
+  emoji: string;
+  kind: TrackerKind;
+  unit: string; // shown after the values of number trackers
+}
+
+// Id of a level in Settings.moodScale, or NO_MOOD
+export type MoodColor = string;
 export type ViewMode = 'month' | 'year' | 'day';
+export type DayMoodRule = 'latest' | 'average' | 'worst';
 
 export interface Settings {
   customColors: {
     base: string;
     accent: string;
     text: string;
-    moods: Record<MoodColor, string>;
+    noMood: string;
   };
-  customLabels: Record<MoodColor, string>;
+  moodScale: MoodLevel[]; // MIN_MOOD_LEVELS to MAX_MOOD_LEVELS levels, sorted by value
   backgroundImage?: string;
   backgroundColor?: string;
   isDarkMode: boolean;
+  appLock?: AppLockSettings;
+  trashRetentionDays?: number; // 0 keeps deleted entries until the trash is emptied
+  dayMoodRule?: DayMoodRule; // how check-ins combine into the day's color, 'latest' when unset
+  activities: Activity[];
+  trackers: Tracker[];
+  calendarTracker?: string; // id of the tracker shown as a dot under each day of the month view
+}
+
+export interface AppLockSettings {
+  pinHash: string;
+  salt: string;
+  idleMinutes: number; // 0 disables the idle timer
+  lockOnHide: boolean;
+}
+
+export interface StatusAction {
+  label: string;
+  onClick: () => void;
 }
 
 // Constants
-export const MOOD_COLORS: readonly MoodColor[] = ['grey', 'red', 'orange', 'yellow', 'green', 'blue', 'purple'];
-
-export const MOOD_EMOJIS: Record<MoodColor, string> = {
-  grey: '⚪',
-  red: '🔴',
-  orange: '🟠',
-  yellow: '🟡',
-  green: '🟢',
-  blue: '🔵',
-  purple: '🟣',
+export const NO_MOOD: MoodColor = 'grey';
+export const NO_MOOD_LABEL = 'No Mood';
+export const NO_MOOD_EMOJI = '⚪';
+
+export const MIN_MOOD_LEVELS = 3;
+export const MAX_MOOD_LEVELS = 10;
+
+export const DEFAULT_MOOD_SCALE: MoodLevel[] = [
+  { id: 'red', name: 'Terrible', color: '#a63939', emoji: '🔴', value: 1 },
+  { id: 'orange', name: 'Bad', color: '#c25e28', emoji: '🟠', value: 2 },
+  { id: 'yellow', name: 'Okay', color: '#a98d00', emoji: '🟡', value: 3 },
+  { id: 'green', name: 'Good', color: '#5b7d2a', emoji: '🟢', value: 4 },
+  { id: 'blue', name: 'Great', color: '#2b748d', emoji: '🔵', value: 5 },
+  { id: 'purple', name: 'Amazing', color: '#764398', emoji: '🟣', value: 6 },
+];
+
+export const CHECK_IN_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const DAY_MOOD_RULES: Record<DayMoodRule, string> = {
+  latest: 'Latest check-in',
+  average: 'Average of the day',
+  worst: 'Worst of the day',
+};
+
+export const TRACKER_KINDS: Record<TrackerKind, string> = {
+  boolean: 'Yes / no',
+  count: 'Count',
+  number: 'Number',
+};
+
+export const METRICS: Record<MetricKey, MetricDefinition> = {
+  energy: { label: 'Energy', min: 1, max: 5, step: 1, unit: '' },
+  anxiety: { label: 'Anxiety', min: 1, max: 5, step: 1, unit: '' },
+  sleep: { label: 'Sleep', min: 0, max: 24, step: 0.5, unit: 'h' },
 };
 
+export const METRIC_KEYS = Object.keys(METRICS) as MetricKey[];
+
 export const MONTH_NAMES = [
   'January', 'February', 'March', 'April', 'May', 'June',
   'July', 'August', 'September', 'October', 'November', 'December'
@@ -40,29 +133,32 @@ export const MONTH_NAMES = [
 
 export const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
 
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const DEFAULT_ACTIVITIES: Activity[] = [
+  { id: 'work', name: 'Work', emoji: '💼', category: 'Daily' },
+  { id: 'chores', name: 'Chores', emoji: '🧹', category: 'Daily' },
+  { id: 'cooking', name: 'Cooking', emoji: '🍳', category: 'Daily' },
+  { id: 'family', name: 'Family', emoji: '🏡', category: 'People' },
+  { id: 'friends', name: 'Friends', emoji: '🫂', category: 'People' },
+  { id: 'date', name: 'Date', emoji: '💞', category: 'People' },
+  { id: 'exercise', name: 'Exercise', emoji: '🏃', category: 'Health' },
+  { id: 'good-sleep', name: 'Good sleep', emoji: '😴', category: 'Health' },
+  { id: 'outdoors', name: 'Outdoors', emoji: '🌳', category: 'Health' },
+  { id: 'reading', name: 'Reading', emoji: '📚', category: 'Hobbies' },
+  { id: 'gaming', name: 'Gaming', emoji: '🎮', category: 'Hobbies' },
+  { id: 'music', name: 'Music', emoji: '🎵', category: 'Hobbies' },
+];
+
 export const DEFAULT_SETTINGS: Settings = {
   customColors: {
     base: '#1e1e1e',
     accent: '#d66a8c',
     text: '#bababa',
-    moods: {
-      grey: '#78716c',
-      red: '#a63939',
-      orange: '#c25e28',
-      yellow: '#a98d00',
-      green: '#5b7d2a',
-      blue: '#2b748d',
-      purple: '#764398',
-    },
-  },
-  customLabels: {
-    grey: 'No Mood',
-    red: 'Terrible',
-    orange: 'Bad',
-    yellow: 'Okay',
-    green: 'Good',
-    blue: 'Great',
-    purple: 'Amazing',
+    noMood: '#78716c',
   },
+  moodScale: DEFAULT_MOOD_SCALE,
   isDarkMode: true,
+  activities: DEFAULT_ACTIVITIES,
+  trackers: [],
 };
\ No newline at end of file
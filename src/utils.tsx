@@ -1,5 +1,26 @@
 import React from 'react';
-import { MoodEntry, MoodColor, Settings, MOOD_EMOJIS, MONTH_NAMES } from './types';
+import {
+  MoodEntry,
+  MoodColor,
+  CheckIn,
+  Activity,
+  Tracker,
+  MoodLevel,
+  MetricKey,
+  EntryMetrics,
+  Settings,
+  NO_MOOD,
+  NO_MOOD_LABEL,
+  NO_MOOD_EMOJI,
+  MIN_MOOD_LEVELS,
+  MAX_MOOD_LEVELS,
+  MONTH_NAMES,
+  METRICS,
+  METRIC_KEYS,
+  CHECK_IN_TIME_PATTERN,
+} from './types';
+import { SCHEMA_VERSION, migrateEntry, migrateSettings, hasValidEntryDetails, isMetricValue } from './migrations';
+import { EncryptionParams, EncryptedPayload, deriveKey, encryptJson, decryptJson, sha256Hex } from './crypto';
 
 export const getCalendarIconSvg = (color: string): string => {
   const svg = `<svg xmlns='http://www.w3.org/2000/svg' width='16' height='16' viewBox='0 0 24 24' fill='none' stroke='${color}' stroke-width='2' stroke-linecap='round' stroke-linejoin='round'><rect x='3' y='4' width='18' height='18' rx='2' ry='2'></rect><line x1='16' y1='2' x2='16' y2='6'></line><line x1='8' y1='2' x2='8' y2='6'></line><line x1='3' y1='10' x2='21' y2='10'></line></svg>`;
@@ -40,7 +61,7 @@ export const calculateGradientColors = (baseColor: string): { from: string; via:
 };
 
 export const getMoodStyle = (mood: MoodColor, settings: Settings, isFuture: boolean) => {
-  const color = settings.customColors.moods[mood];
+  const color = getMoodColor(mood, settings);
   return isFuture
     ? { backgroundColor: 'transparent', border: `3px solid ${color}` }
     : { backgroundColor: color };
@@ -198,9 +219,376 @@ export const formatDisplayDate = (date: Date): string => {
     .toUpperCase()}`;
 };
 
+// Mood Scale
+
+// Moods the scale does not define (synced from a device with another scale) show as no mood
+export const getMoodLevel = (mood: MoodColor, settings: Settings): MoodLevel | undefined =>
+  settings.moodScale.find((level) => level.id === mood);
+
+export const getMoodColor = (mood: MoodColor, settings: Settings): string =>
+  getMoodLevel(mood, settings)?.color ?? settings.customColors.noMood;
+
+export const getMoodLabel = (mood: MoodColor, settings: Settings): string =>
+  getMoodLevel(mood, settings)?.name ?? NO_MOOD_LABEL;
+
+export const getMoodEmoji = (mood: MoodColor, settings: Settings): string =>
+  getMoodLevel(mood, settings)?.emoji ?? NO_MOOD_EMOJI;
+
+export const getMoodScore = (mood: MoodColor, settings: Settings): number | null =>
+  getMoodLevel(mood, settings)?.value ?? null;
+
+// Everything the mood selectors offer, "no mood" first
+export const getMoodOptions = (settings: Settings): MoodColor[] => [
+  NO_MOOD,
+  ...settings.moodScale.map((level) => level.id),
+];
+
+const getNearestLevel = (scale: MoodLevel[], value: number): MoodLevel =>
+  scale.reduce((nearest, level) =>
+    Math.abs(level.value - value) <= Math.abs(nearest.value - value) ? level : nearest
+  );
+
+export const createMoodLevelId = (scale: MoodLevel[]): string => {
+  let id = `level-${scale.length + 1}`;
+  for (let suffix = scale.length + 2; scale.some((level) => level.id === id); suffix++) id = `level-${suffix}`;
+  return id;
+};
+
+// Checks a scale from the editor and sorts it by value
+export const normalizeMoodScale = (scale: MoodLevel[]): MoodLevel[] => {
+  if (scale.length < MIN_MOOD_LEVELS || scale.length > MAX_MOOD_LEVELS) {
+    throw new Error(`A mood scale needs ${MIN_MOOD_LEVELS} to ${MAX_MOOD_LEVELS} levels.`);
+  }
+  const levels = scale.map((level) => ({ ...level, name: level.name.trim(), emoji: level.emoji.trim() }));
+  if (levels.some((level) => !level.name || !level.emoji)) {
+    throw new Error('Every mood level needs a name and an emoji.');
+  }
+  if (levels.some((level) => !Number.isFinite(level.value))) {
+    throw new Error('Every mood level needs a numeric value.');
+  }
+  // Text exports tell moods apart by emoji, spreadsheets by value
+  const emojis = new Set(levels.map((level) => toEmojiKey(level.emoji)));
+  if (emojis.size < levels.length || emojis.has(toEmojiKey(NO_MOOD_EMOJI))) {
+    throw new Error(`Every mood level needs its own emoji, other than ${NO_MOOD_EMOJI}.`);
+  }
+  if (new Set(levels.map((level) => level.value)).size < levels.length) {
+    throw new Error('Every mood level needs its own value.');
+  }
+  return levels.sort((a, b) => a.value - b.value);
+};
+
+// Moves moods whose level is not on the new scale to the level at the same relative height, so switching from
+// seven levels to three keeps good days good. Moods neither scale knows are left alone.
+export const remapEntryMoods = (entries: MoodEntry[], from: MoodLevel[], to: MoodLevel[]): MoodEntry[] => {
+  const targetIds = new Set(to.map((level) => level.id));
+  const position = (scale: MoodLevel[], value: number): number => {
+    const min = scale[0].value;
+    const max = scale[scale.length - 1].value;
+    return max === min ? 0.5 : (value - min) / (max - min);
+  };
+  const targets = to.map((level) => ({ ...level, value: position(to, level.value) }));
+  const remap = (mood: MoodColor): MoodColor => {
+    const level = from.find((candidate) => candidate.id === mood);
+    if (targetIds.has(mood) || !level) return mood;
+    return getNearestLevel(targets, position(from, level.value)).id;
+  };
+
+  return entries.map((entry) => {
+    const checkIns = entry.checkIns?.map((checkIn) => ({ ...checkIn, mood: remap(checkIn.mood) }));
+    const mood = remap(entry.mood);
+    const changed = mood !== entry.mood || checkIns?.some((checkIn, i) => checkIn.mood !== entry.checkIns?.[i].mood);
+    return changed ? { ...entry, mood, ...(checkIns ? { checkIns } : {}) } : entry;
+  });
+};
+
+// Check-ins
+
+export const sortCheckIns = (checkIns: CheckIn[]): CheckIn[] =>
+  [...checkIns].sort((a, b) => a.time.localeCompare(b.time));
+
+export const getCurrentTime = (): string => {
+  const now = new Date();
+  return `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+};
+
+// The color a day shows in the calendar. The entry's own mood counts as the day's first check-in, and check-ins
+// without a mood are left out.
+export const getDayMood = (entry: MoodEntry | undefined, settings: Settings): MoodColor => {
+  if (!entry) return NO_MOOD;
+  const levels = [entry.mood, ...(entry.checkIns ?? []).map((checkIn) => checkIn.mood)]
+    .map((mood) => getMoodLevel(mood, settings))
+    .filter((level): level is MoodLevel => !!level);
+  if (levels.length === 0) return NO_MOOD;
+
+  const rule = settings.dayMoodRule ?? 'latest';
+  if (rule === 'latest') return levels[levels.length - 1].id;
+  const values = levels.map((level) => level.value);
+  const value = rule === 'worst' ? Math.min(...values) : values.reduce((sum, v) => sum + v, 0) / values.length;
+  return getNearestLevel(settings.moodScale, value).id;
+};
+
+// Activities
+
+const UNKNOWN_ACTIVITY_EMOJI = '🏷️';
+
+// Between activity names in text and CSV files, as in Daylio exports
+const ACTIVITY_SEPARATOR = ' | ';
+
+// Activities in the order of the settings list. Ids this journal does not define (synced from a device with
+// other activities) are still shown, under their id.
+export const getActivitiesById = (ids: string[], settings: Settings): Activity[] => {
+  if (ids.length === 0) return [];
+  const known = settings.activities.filter((activity) => ids.includes(activity.id));
+  const unknown = ids
+    .filter((id) => !known.some((activity) => activity.id === id))
+    .map((id) => ({ id, name: id, emoji: UNKNOWN_ACTIVITY_EMOJI, category: '' }));
+  return [...known, ...unknown];
+};
+
+export const getEntryActivities = (entry: MoodEntry | undefined, settings: Settings): Activity[] =>
+  getActivitiesById(entry?.activities ?? [], settings);
+
+export const groupActivitiesByCategory = (activities: Activity[]): Array<[string, Activity[]]> => {
+  const groups = new Map<string, Activity[]>();
+  activities.forEach((activity) => {
+    groups.set(activity.category, [...(groups.get(activity.category) ?? []), activity]);
+  });
+  return Array.from(groups);
+};
+
+// A slug of the name that is not taken yet, like "good-sleep" or "good-sleep-2"
+const createUniqueId = (name: string, existing: { id: string }[], fallback: string): string => {
+  const base =
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '') || fallback;
+  let id = base;
+  for (let suffix = 2; existing.some((item) => item.id === id); suffix++) id = `${base}-${suffix}`;
+  return id;
+};
+
+export const createActivityId = (name: string, existing: Activity[]): string =>
+  createUniqueId(name, existing, 'activity');
+
+export interface ActivityResolver {
+  resolve: (names: string) => string[]; // names joined by ACTIVITY_SEPARATOR
+  created: Activity[];
+}
+
+// Maps activity names from an import to ids, creating activities for names this journal does not know yet
+export const createActivityResolver = (settings: Settings): ActivityResolver => {
+  const byName = new Map(settings.activities.map((activity) => [activity.name.toLowerCase(), activity]));
+  const created: Activity[] = [];
+
+  const resolve = (names: string): string[] => {
+    const ids = names
+      .split(ACTIVITY_SEPARATOR.trim())
+      .map((name) => name.trim())
+      .filter(Boolean)
+      .map((name) => {
+        let activity = byName.get(name.toLowerCase());
+        if (!activity) {
+          const id = createActivityId(name, [...settings.activities, ...created]);
+          activity = { id, name, emoji: UNKNOWN_ACTIVITY_EMOJI, category: 'Imported' };
+          created.push(activity);
+          byName.set(name.toLowerCase(), activity);
+        }
+        return activity.id;
+      });
+    return Array.from(new Set(ids));
+  };
+
+  return { resolve, created };
+};
+
+const getActivityNames = (entry: MoodEntry, settings: Settings): string[] =>
+  getEntryActivities(entry, settings).map((activity) => activity.name);
+
+// Metrics
+
+export const formatMetric = (key: MetricKey, value: number): string => {
+  const metric = METRICS[key];
+  return metric.unit ? `${value}${metric.unit}` : `${value}/${metric.max}`;
+};
+
+// Keeps the recorded metrics only; an entry without any has no `metrics` at all
+export const withMetrics = (entry: MoodEntry, metrics: EntryMetrics): MoodEntry => {
+  const { metrics: _previous, ...rest } = entry;
+  const recorded = METRIC_KEYS.filter((key) => metrics[key] !== undefined);
+  if (recorded.length === 0) return rest;
+  return { ...rest, metrics: Object.fromEntries(recorded.map((key) => [key, metrics[key]])) };
+};
+
+// Trackers
+
+export const createTrackerId = (name: string, existing: Tracker[]): string =>
+  createUniqueId(name, existing, 'tracker');
+
+export const formatTrackerValue = (tracker: Tracker, value: number): string => {
+  if (tracker.kind === 'boolean') return 'Done';
+  if (tracker.kind === 'count') return `×${value}`;
+  return tracker.unit ? `${value} ${tracker.unit}` : String(value);
+};
+
+// `undefined` clears the tracker for the day; an entry without any tracker values has no `trackers` at all
+export const withTrackerValue = (entry: MoodEntry, trackerId: string, value: number | undefined): MoodEntry => {
+  const { trackers, ...rest } = entry;
+  const { [trackerId]: _previous, ...others } = trackers ?? {};
+  const next = value === undefined ? others : { ...others, [trackerId]: value };
+  return Object.keys(next).length > 0 ? { ...rest, trackers: next } : rest;
+};
+
+const shiftDate = (date: string, days: number): string => {
+  const shifted = parseDate(date);
+  shifted.setDate(shifted.getDate() + days);
+  return formatDate(shifted);
+};
+
+// A day counts towards a streak when the tracker has any value that day. The current streak still runs
+// while today has no value yet, so it only breaks once a whole day is missed.
+export const getTrackerStreaks = (
+  entries: MoodEntry[],
+  trackerId: string,
+  today = new Date()
+): { current: number; longest: number } => {
+  const days = new Set(entries.filter((entry) => entry.trackers?.[trackerId] !== undefined).map((entry) => entry.date));
+  const streakEndingOn = (date: string): number => {
+    let length = 0;
+    for (let day = date; days.has(day); day = shiftDate(day, -1)) length++;
+    return length;
+  };
+
+  const todayKey = formatDate(today);
+  const lastDays = Array.from(days).filter((date) => !days.has(shiftDate(date, 1)));
+  return {
+    current: streakEndingOn(days.has(todayKey) ? todayKey : shiftDate(todayKey, -1)),
+    longest: Math.max(0, ...lastDays.map(streakEndingOn)),
+  };
+};
+
+// Statistics
+
+export interface StatsPoint {
+  label: string;
+  mood: number | null; // average mood score of the days in the period
+  metrics: Record<MetricKey, number | null>;
+}
+
+export interface JournalStats {
+  dayCount: number;
+  mood: number | null;
+  metrics: Record<MetricKey, number | null>;
+  distribution: { level: MoodLevel; count: number }[];
+  trend: StatsPoint[];
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const summarizeDays = (entries: MoodEntry[], settings: Settings): Omit<StatsPoint, 'label'> => ({
+  mood: average(
+    entries
+      .map((entry) => getMoodScore(getDayMood(entry, settings), settings))
+      .filter((score): score is number => score !== null)
+  ),
+  metrics: Object.fromEntries(
+    METRIC_KEYS.map((key) => [key, average(entries.flatMap((entry) => entry.metrics?.[key] ?? []))])
+  ) as Record<MetricKey, number | null>,
+});
+
+// Days count with their day mood, as in the calendar. A year is charted per month, a month per day.
+export const computeStats = (entries: MoodEntry[], settings: Settings, year: number, month?: number): JournalStats => {
+  const periods =
+    month === undefined
+      ? MONTH_NAMES.map((name) => name.slice(0, 3))
+      : Array.from({ length: getDaysInMonth(new Date(year, month, 1)) }, (_, index) => String(index + 1));
+  const byPeriod: MoodEntry[][] = periods.map(() => []);
+
+  getValidEntries(entries).forEach((entry) => {
+    const date = parseDate(entry.date);
+    if (date.getFullYear() !== year || (month !== undefined && date.getMonth() !== month)) return;
+    byPeriod[month === undefined ? date.getMonth() : date.getDate() - 1].push(entry);
+  });
+
+  const days = byPeriod.flat();
+  const dayMoods = days.map((entry) => getDayMood(entry, settings));
+  return {
+    dayCount: days.length,
+    ...summarizeDays(days, settings),
+    distribution: settings.moodScale.map((level) => ({
+      level,
+      count: dayMoods.filter((mood) => mood === level.id).length,
+    })),
+    trend: periods.map((label, index) => ({ label, ...summarizeDays(byPeriod[index], settings) })),
+  };
+};
+
+// Hashtags & Mentions
+
+export type MentionKind = 'hashtag' | 'mention';
+
+export interface MentionSummary {
+  text: string; // as first written, e.g. "#Work" or "@sam"
+  kind: MentionKind;
+  count: number; // entries that use it
+  firstDate: string;
+  lastDate: string;
+}
+
+// "#work" and "@sam", but not the "@" in an email address or a lone "#". Group 1 is the character before it.
+const MENTION_REGEX = /(^|[^\p{L}\p{N}_])([#@][\p{L}\p{N}_]+(?:-[\p{L}\p{N}_]+)*)/gu;
+
+const findMentions = (text: string): string[] =>
+  Array.from(stripFormattingTags(text).matchAll(MENTION_REGEX), (match) => match[2]);
+
+export const isMention = (text: string): boolean => {
+  const [mention] = findMentions(text.trim());
+  return mention === text.trim();
+};
+
+const getEntryText = (entry: MoodEntry): string =>
+  [entry.diary || '', ...(entry.checkIns ?? []).map((checkIn) => checkIn.diary)].join('\n');
+
+// Hashtags and mentions of a diary as written by the editor, lower-cased and without duplicates
+export const extractMentions = (diary: string): string[] =>
+  Array.from(new Set(findMentions(diary).map((mention) => mention.toLowerCase())));
+
+// Every hashtag and mention in the journal, most used first
+export const buildMentionIndex = (entries: MoodEntry[]): MentionSummary[] => {
+  const index = new Map<string, MentionSummary>();
+  sortEntriesByDate(entries).forEach((entry) => {
+    const written = new Map<string, string>();
+    findMentions(getEntryText(entry)).forEach((mention) => {
+      const key = mention.toLowerCase();
+      if (!written.has(key)) written.set(key, mention);
+    });
+    written.forEach((original, key) => {
+      const summary = index.get(key);
+      if (summary) {
+        summary.count++;
+        summary.lastDate = entry.date;
+      } else {
+        const kind = original.startsWith('#') ? 'hashtag' : 'mention';
+        index.set(key, { text: original, kind, count: 1, firstDate: entry.date, lastDate: entry.date });
+      }
+    });
+  });
+  return Array.from(index.values()).sort((a, b) => b.count - a.count || a.text.localeCompare(b.text));
+};
+
 // Entry Utilities
-export const getValidEntries = (entries: MoodEntry[]): MoodEntry[] =>
-  entries.filter((entry) => entry.mood !== 'grey' || entry.diary.trim());
+// Days where nothing was recorded are not kept
+export const hasEntryContent = (entry: MoodEntry): boolean =>
+  entry.mood !== NO_MOOD ||
+  !!entry.diary.trim() ||
+  !!entry.checkIns?.length ||
+  !!entry.activities?.length ||
+  !!entry.metrics ||
+  !!entry.trackers;
+
+export const getValidEntries = (entries: MoodEntry[]): MoodEntry[] => entries.filter(hasEntryContent);
 
 export const sortEntriesByDate = (entries: MoodEntry[], ascending = true): MoodEntry[] => {
   return [...entries].sort((a, b) => {
@@ -213,22 +601,39 @@ export const sortEntriesByDate = (entries: MoodEntry[], ascending = true): MoodE
 export const filterEntriesBySearch = (entries: MoodEntry[], query: string, settings: Settings): MoodEntry[] => {
   if (!query.trim()) return entries;
 
+  // A lone "#work" finds that hashtag only, not "#workout"
+  if (isMention(query)) {
+    const mention = query.trim().toLowerCase();
+    return entries.filter((entry) => extractMentions(getEntryText(entry)).includes(mention));
+  }
+
   const searchTerm = query.toLowerCase();
   return entries.filter((entry) => {
     const date = parseDate(entry.date);
     const formattedDate = formatDisplayDate(date).toLowerCase();
-    const moodLabel = settings.customLabels[entry.mood].toLowerCase();
-    const diary = entry.diary || '';
+    const moodLabel = getMoodLabel(getDayMood(entry, settings), settings).toLowerCase();
+    const diary = getEntryText(entry);
+    const activities = getActivityNames(entry, settings).join('\n').toLowerCase();
 
     return (
       diary.toLowerCase().includes(searchTerm) ||
       formattedDate.includes(searchTerm) ||
-      moodLabel.includes(searchTerm)
+      moodLabel.includes(searchTerm) ||
+      activities.includes(searchTerm)
     );
   });
 };
 
-export const exportData = (entries: MoodEntry[]): string => {
+// In text exports the activities are the line right after the date, and check-ins follow the day's diary, each
+// under a line like "— 20:15 🟢". Moods are written as the emoji of their level.
+const ACTIVITY_LINE_PREFIX = '🏷️ ';
+const CHECK_IN_HEADER = /^— ((?:[01]\d|2[0-3]):[0-5]\d) (\S+)$/u;
+const ENTRY_HEADER = /^(\S+)\s+([A-Z]+)\s+(\d+)\s+(\d{4}),\s+[A-Z]+$/iu;
+
+// Emoji typed on different devices may differ only in the invisible variation selector
+const toEmojiKey = (emoji: string): string => emoji.replace(/\uFE0F/g, '');
+
+export const exportData = (entries: MoodEntry[], settings: Settings): string => {
   const validEntries = getValidEntries(entries);
   if (validEntries.length === 0) return 'No entries to export.';
 
@@ -238,15 +643,21 @@ export const exportData = (entries: MoodEntry[]): string => {
     .map((entry) => {
       const date = parseDate(entry.date);
       const formattedDate = formatDisplayDate(date);
-      const emoji = MOOD_EMOJIS[entry.mood];
+      const emoji = getMoodEmoji(entry.mood, settings);
       const cleanedDiary = cleanupTags(entry.diary || '');
+      const activities = getActivityNames(entry, settings);
+      const activityLine =
+        activities.length > 0 ? `${ACTIVITY_LINE_PREFIX}${activities.join(ACTIVITY_SEPARATOR)}\n` : '';
+      const checkIns = (entry.checkIns ?? []).map(
+        (checkIn) => `\n— ${checkIn.time} ${getMoodEmoji(checkIn.mood, settings)}\n${cleanupTags(checkIn.diary)}`
+      );
 
-      return `${emoji} ${formattedDate}\n${cleanedDiary}`;
+      return `${emoji} ${formattedDate}\n${activityLine}${cleanedDiary}${checkIns.join('')}`;
     })
     .join('\n\n');
 };
 
-export const importData = (content: string): MoodEntry[] => {
+export const importData = (content: string, settings: Settings, activities: ActivityResolver): MoodEntry[] => {
   if (!content?.trim()) {
     throw new Error('File is empty or contains no valid data.');
   }
@@ -256,19 +667,16 @@ export const importData = (content: string): MoodEntry[] => {
   const blocks: string[] = [];
   let currentBlock = '';
 
-  const emojiToMood = {
-    '⚪': 'grey',
-    '🔴': 'red',
-    '🟠': 'orange',
-    '🟡': 'yellow',
-    '🟢': 'green',
-    '🔵': 'blue',
-    '🟣': 'purple',
-  } as const;
+  const emojiToMood = new Map<string, MoodColor>([
+    [toEmojiKey(NO_MOOD_EMOJI), NO_MOOD],
+    ...settings.moodScale.map((level) => [toEmojiKey(level.emoji), level.id] as const),
+  ]);
+  const getMoodByEmoji = (emoji: string): MoodColor | undefined => emojiToMood.get(toEmojiKey(emoji));
 
   for (const line of lines) {
     const trimmedLine = line.trim();
-    const isNewEntry = /^([🔴🟠🟡🟢🔵🟣⚪])\s+([A-Z]+)\s+(\d+)\s+(\d{4}),\s+[A-Z]+$/iu.test(trimmedLine);
+    const header = trimmedLine.match(ENTRY_HEADER);
+    const isNewEntry = !!header && !!getMoodByEmoji(header[1]);
 
     if (isNewEntry && currentBlock.trim()) {
       blocks.push(currentBlock.trim());
@@ -307,21 +715,31 @@ export const importData = (content: string): MoodEntry[] => {
     if (lines.length === 0) continue;
 
     const firstLine = lines[0];
-    const diary = lines.length > 1 ? lines.slice(1).join('\n').trim() : '';
+    const activityIds = lines[1]?.startsWith(ACTIVITY_LINE_PREFIX)
+      ? activities.resolve(lines.splice(1, 1)[0].slice(ACTIVITY_LINE_PREFIX.length))
+      : [];
+    const sections: Array<{ header: RegExpMatchArray | null; lines: string[] }> = [{ header: null, lines: [] }];
+    for (const line of lines.slice(1)) {
+      const header = line.match(CHECK_IN_HEADER);
+      if (header && getMoodByEmoji(header[2])) sections.push({ header, lines: [] });
+      else sections[sections.length - 1].lines.push(line);
+    }
+    const diary = sections[0].lines.join('\n').trim();
+    const checkIns: CheckIn[] = sections.slice(1).map(({ header, lines: checkInLines }) => ({
+      time: header![1],
+      mood: getMoodByEmoji(header![2])!,
+      diary: checkInLines.join('\n').trim(),
+    }));
 
-    const emojiMatch = firstLine.match(/^([🔴🟠🟡🟢🔵🟣⚪])\s+(.+)$/u);
-    if (!emojiMatch) continue;
+    const headerMatch = firstLine.match(ENTRY_HEADER);
+    if (!headerMatch) continue;
 
-    const [, emoji, dateText] = emojiMatch;
-    const mood = emojiToMood[emoji as keyof typeof emojiToMood];
+    const mood = getMoodByEmoji(headerMatch[1]);
     if (!mood) continue;
 
-    const dateMatch = dateText.match(/^([A-Z]+)\s+(\d+)\s+(\d{4}),\s+[A-Z]+$/i);
-    if (!dateMatch) continue;
-
-    const [, monthName] = dateMatch;
-    const day = parseInt(dateMatch[2]);
-    const year = parseInt(dateMatch[3]);
+    const [, , monthName] = headerMatch;
+    const day = parseInt(headerMatch[3]);
+    const year = parseInt(headerMatch[4]);
 
     const monthIndex = getMonthIndex(monthName);
     if (monthIndex === -1) continue;
@@ -333,6 +751,8 @@ export const importData = (content: string): MoodEntry[] => {
       date: formatDate(entryDate),
       mood,
       diary,
+      ...(checkIns.length > 0 ? { checkIns: sortCheckIns(checkIns) } : {}),
+      ...(activityIds.length > 0 ? { activities: activityIds } : {}),
     });
   }
 
@@ -343,6 +763,585 @@ export const importData = (content: string): MoodEntry[] => {
   return entries;
 };
 
+// CSV
+
+// `time` is empty on the row with the day's own mood, activities, metrics and diary, and set on one row per check-in
+export const CSV_COLUMNS = [
+  'date',
+  'time',
+  'mood',
+  'mood_label',
+  'mood_score',
+  'activities',
+  ...METRIC_KEYS,
+  'diary',
+] as const;
+
+export const stripFormattingTags = (text: string): string => text.replace(/<\/?[biu]>/g, '');
+
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]): string =>
+  rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n');
+
+export const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+export const exportCsv = (entries: MoodEntry[], settings: Settings, keepFormatting = false): string => {
+  const toRow = (
+    date: string,
+    time: string,
+    mood: MoodColor,
+    text: string,
+    activities: string[] = [],
+    metrics: EntryMetrics = {}
+  ): string[] => {
+    const diary = cleanupTags(text || '');
+    return [
+      date,
+      time,
+      mood,
+      getMoodLabel(mood, settings),
+      getMoodScore(mood, settings)?.toString() ?? '',
+      activities.join(ACTIVITY_SEPARATOR),
+      ...METRIC_KEYS.map((key) => metrics[key]?.toString() ?? ''),
+      keepFormatting ? diary : stripFormattingTags(diary),
+    ];
+  };
+  const rows = sortEntriesByDate(getValidEntries(entries)).flatMap((entry) => [
+    toRow(entry.date, '', entry.mood, entry.diary, getActivityNames(entry, settings), entry.metrics),
+    ...(entry.checkIns ?? []).map((checkIn) => toRow(entry.date, checkIn.time, checkIn.mood, checkIn.diary)),
+  ]);
+  return '\uFEFF' + toCsv([[...CSV_COLUMNS], ...rows]);
+};
+
+// Rows without a readable date or mood are left out and counted
+export const importCsv = (
+  content: string,
+  settings: Settings,
+  activities: ActivityResolver
+): { entries: MoodEntry[]; skipped: number } => {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) {
+    throw new Error('File is empty or contains no valid data.');
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const column = (name: string) => columns.indexOf(name);
+  const dateIndex = column('date');
+  if (dateIndex === -1) {
+    throw new Error('CSV file needs a "date" column.');
+  }
+
+  const moods = getMoodOptions(settings);
+  const keyToMood = new Map(moods.map((mood) => [mood.toLowerCase(), mood] as const));
+  const labelToMood = new Map(moods.map((mood) => [getMoodLabel(mood, settings).toLowerCase(), mood] as const));
+  const scoreToMood = new Map(settings.moodScale.map((level) => [level.value, level.id] as const));
+
+  const resolveMood = (row: string[]): MoodColor | undefined => {
+    const key = row[column('mood')]?.trim().toLowerCase();
+    if (key && keyToMood.has(key)) return keyToMood.get(key);
+
+    const label = row[column('mood_label')]?.trim().toLowerCase();
+    if (label && labelToMood.has(label)) return labelToMood.get(label);
+
+    const score = row[column('mood_score')]?.trim();
+    if (score) return scoreToMood.get(Number(score));
+
+    return key || label ? undefined : NO_MOOD;
+  };
+
+  const byDate = new Map<string, MoodEntry>();
+  let skipped = 0;
+  for (const row of rows) {
+    const date = row[dateIndex]?.trim();
+    const mood = resolveMood(row);
+    // Only an empty time marks the day's own row; a time that cannot be read must not overwrite it
+    const time = row[column('time')]?.trim() ?? '';
+    if (!isValidDateKey(date) || !mood || (time && !CHECK_IN_TIME_PATTERN.test(time))) {
+      skipped++;
+      continue;
+    }
+
+    const diary = cleanupTags(row[column('diary')] ?? '');
+    const activityIds = activities.resolve(row[column('activities')] ?? '');
+    const existing = byDate.get(date);
+    if (!time) {
+      const details = activityIds.length > 0 ? { activities: activityIds } : {};
+      const metrics: EntryMetrics = {};
+      METRIC_KEYS.forEach((key) => {
+        const value = Number(row[column(key)]?.trim() || NaN);
+        if (isMetricValue(key, value)) metrics[key] = value;
+      });
+      byDate.set(date, withMetrics({ ...existing, date, mood, diary, ...details }, metrics));
+    } else {
+      const entry = existing ?? { date, mood: NO_MOOD, diary: '' };
+      byDate.set(date, { ...entry, checkIns: sortCheckIns([...(entry.checkIns ?? []), { time, mood, diary }]) });
+    }
+  }
+
+  const entries = Array.from(byDate.values());
+  if (entries.length === 0) {
+    throw new Error('No valid entries found in the file. Please check the format.');
+  }
+
+  return { entries, skipped };
+};
+
+// Markdown
+
+const splitFormattedSegments = (text: string): Array<{ text: string; tags: Set<string> }> => {
+  const segments: Array<{ text: string; tags: Set<string> }> = [];
+  const tagStack: string[] = [];
+  const tagRegex = /<(\/?)([biu])>/g;
+  let currentIndex = 0;
+  let match;
+
+  while ((match = tagRegex.exec(text)) !== null) {
+    if (match.index > currentIndex) {
+      segments.push({ text: text.substring(currentIndex, match.index), tags: new Set(tagStack) });
+    }
+    if (match[1] === '/') {
+      const index = tagStack.lastIndexOf(match[2]);
+      if (index !== -1) tagStack.splice(index, 1);
+    } else {
+      tagStack.push(match[2]);
+    }
+    currentIndex = match.index + match[0].length;
+  }
+
+  if (currentIndex < text.length) {
+    segments.push({ text: text.substring(currentIndex), tags: new Set(tagStack) });
+  }
+  return segments;
+};
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\*_`])/g, '\\$1');
+
+// Markdown has no underline, so <u> stays as inline HTML, which Markdown renderers accept.
+export const tagsToMarkdown = (diary: string): string =>
+  splitFormattedSegments(cleanupTags(diary))
+    .map(({ text, tags }) =>
+      text
+        .split('\n')
+        .map((line) => {
+          const [, leading, core, trailing] = line.match(/^(\s*)([\s\S]*?)(\s*)$/) ?? ['', '', line, ''];
+          if (!core) return line;
+
+          let formatted = escapeMarkdown(core);
+          if (tags.has('u')) formatted = `<u>${formatted}</u>`;
+          if (tags.has('i')) formatted = `_${formatted}_`;
+          if (tags.has('b')) formatted = `**${formatted}**`;
+          return `${leading}${formatted}${trailing}`;
+        })
+        .join('\n')
+    )
+    .join('');
+
+export const exportMarkdownFiles = (
+  entries: MoodEntry[],
+  settings: Settings
+): Array<{ path: string; content: string }> =>
+  sortEntriesByDate(getValidEntries(entries)).map((entry) => {
+    const [year, month] = entry.date.split('-');
+    const frontMatter = [
+      '---',
+      `date: ${entry.date}`,
+      `mood: ${entry.mood}`,
+      `mood_label: ${JSON.stringify(getMoodLabel(entry.mood, settings))}`,
+      `mood_emoji: ${JSON.stringify(getMoodEmoji(entry.mood, settings))}`,
+      ...(entry.activities?.length ? [`activities: ${JSON.stringify(getActivityNames(entry, settings))}`] : []),
+      '---',
+    ].join('\n');
+
+    const checkIns = (entry.checkIns ?? []).map((checkIn) => {
+      const mood = `${getMoodLabel(checkIn.mood, settings)} ${getMoodEmoji(checkIn.mood, settings)}`;
+      const heading = `### ${checkIn.time} · ${mood}`;
+      return checkIn.diary ? `${heading}\n\n${tagsToMarkdown(checkIn.diary)}` : heading;
+    });
+    const checkInSection = checkIns.length > 0 ? `\n## Check-ins\n\n${checkIns.join('\n\n')}\n` : '';
+
+    return {
+      path: `${year}/${month}/${entry.date}.md`,
+      content:
+        `${frontMatter}\n\n# ${formatDisplayDate(parseDate(entry.date))}\n\n${tagsToMarkdown(entry.diary || '')}\n` +
+        checkInSection,
+    };
+  });
+
+// JSON Backup
+
+export const BACKUP_FORMAT = 'mood-journal-backup';
+
+export interface JournalBackup {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  // Of `data`, or of `encrypted` when the journal was encrypted: a hash of the plain journal would let anyone
+  // holding the file confirm a guess about what is in it
+  checksum: string;
+  data?: JournalBackupData;
+  // Present instead of `data` when the journal was encrypted; decrypts to JournalBackupData
+  encrypted?: EncryptionParams & EncryptedPayload;
+}
+
+interface JournalBackupData {
+  entries: MoodEntry[];
+  settings: Settings;
+}
+
+export interface RejectedRecord {
+  index: number;
+  date?: string;
+  reason: string;
+}
+
+const toBackupData = (entries: MoodEntry[], settings: Settings): JournalBackupData => ({
+  entries: sortEntriesByDate(entries),
+  settings,
+});
+
+// Identifies the journal's content whether or not it is encrypted, so sync can skip writing a file that would
+// not change. It is kept on this device and only written into unencrypted files.
+export const getBackupChecksum = (entries: MoodEntry[], settings: Settings): Promise<string> =>
+  sha256Hex(JSON.stringify(toBackupData(entries, settings)));
+
+export const createBackup = async (
+  entries: MoodEntry[],
+  settings: Settings,
+  encryption?: { key: CryptoKey; params: EncryptionParams } | null
+): Promise<string> => {
+  const data = toBackupData(entries, settings);
+  const encrypted = encryption && { ...encryption.params, ...(await encryptJson(encryption.key, data)) };
+  const backup: JournalBackup = {
+    format: BACKUP_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: await sha256Hex(JSON.stringify(encrypted || data)),
+    ...(encrypted ? { encrypted } : { data }),
+  };
+  return JSON.stringify(backup, null, 2);
+};
+
+export const isEncryptedBackup = (content: string): boolean => {
+  try {
+    const backup = JSON.parse(content);
+    return backup?.format === BACKUP_FORMAT && !!backup.encrypted;
+  } catch {
+    return false;
+  }
+};
+
+export const isValidDateKey = (date: unknown): date is string => {
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  return formatDate(parseDate(date)) === date;
+};
+
+// `secret` is the backup's passphrase, or the journal key when the file was written by this journal.
+// `checksum` is the content's, as getBackupChecksum gives it.
+export const restoreBackup = async (
+  content: string,
+  secret?: string | CryptoKey
+): Promise<{ entries: MoodEntry[]; settings: Settings; rejected: RejectedRecord[]; checksum: string }> => {
+  let backup: JournalBackup;
+  try {
+    backup = JSON.parse(content);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+
+  if (!backup || backup.format !== BACKUP_FORMAT || (!backup.data && !backup.encrypted)) {
+    throw new Error('File is not a Mood Journal backup.');
+  }
+  if (typeof backup.schemaVersion !== 'number' || backup.schemaVersion > SCHEMA_VERSION) {
+    throw new Error('Backup was created by a newer version of the app.');
+  }
+
+  let data = backup.data;
+  let isChecked = false;
+  if (backup.encrypted) {
+    // Files written before the checksum moved to the ciphertext still carry the plain journal's
+    isChecked = backup.checksum === (await sha256Hex(JSON.stringify(backup.encrypted)));
+    if (!secret) throw new Error('This backup is encrypted. Enter its passphrase to restore it.');
+    const key = typeof secret === 'string' ? await deriveKey(secret, backup.encrypted) : secret;
+    data = await decryptJson<JournalBackupData>(key, backup.encrypted);
+  }
+
+  if (!data || !Array.isArray(data.entries)) {
+    throw new Error('File is not a Mood Journal backup.');
+  }
+  const checksum = await sha256Hex(JSON.stringify(data));
+  if (!isChecked && backup.checksum !== checksum) {
+    throw new Error('Backup checksum does not match. The file may be corrupted or edited.');
+  }
+
+  // Entries are checked against the backup's own mood scale
+  const settings = migrateSettings({ ...data.settings, schemaVersion: backup.schemaVersion });
+  const entries: MoodEntry[] = [];
+  const rejected: RejectedRecord[] = [];
+
+  data.entries.forEach((raw, index) => {
+    const date = raw && typeof raw === 'object' ? raw.date : undefined;
+    if (!isValidDateKey(date)) {
+      rejected.push({ index, reason: 'Invalid date' });
+    } else if (raw.mood !== NO_MOOD && !getMoodLevel(raw.mood, settings)) {
+      rejected.push({ index, date, reason: `Unknown mood "${String(raw.mood)}"` });
+    } else if (!hasValidEntryDetails(raw)) {
+      rejected.push({ index, date, reason: 'Invalid check-ins, activities, metrics or trackers' });
+    } else {
+      entries.push(migrateEntry({ ...raw, schemaVersion: backup.schemaVersion }));
+    }
+  });
+
+  return { entries, settings, rejected, checksum };
+};
+
+// Import Planning
+
+export type ImportResolution = 'mine' | 'theirs' | 'merge';
+
+// The app lock is left out: restoring a backup keeps this device's PIN, so an old backup cannot remove or
+// change it
+const RESTORED_SETTING_LABELS: Record<Exclude<keyof Settings, 'appLock'>, string> = {
+  customColors: 'Colors',
+  moodScale: 'Mood scale',
+  backgroundImage: 'Background image',
+  backgroundColor: 'Background color',
+  isDarkMode: 'Dark mode',
+  trashRetentionDays: 'Trash retention',
+  dayMoodRule: 'Day color rule',
+  activities: 'Activities',
+  trackers: 'Trackers',
+  calendarTracker: 'Calendar tracker',
+};
+
+export const withLocalAppLock = (restored: Settings, current: Settings): Settings => ({
+  ...restored,
+  appLock: current.appLock,
+});
+
+// Labels of the settings a restore would replace
+export const getRestoredSettingChanges = (current: Settings, restored: Settings): string[] =>
+  (Object.keys(RESTORED_SETTING_LABELS) as Array<keyof typeof RESTORED_SETTING_LABELS>)
+    .filter((key) => JSON.stringify(current[key]) !== JSON.stringify(restored[key]))
+    .map((key) => RESTORED_SETTING_LABELS[key]);
+
+export interface ImportConflict {
+  date: string;
+  current: MoodEntry;
+  incoming: MoodEntry;
+}
+
+export interface ImportPlan {
+  added: MoodEntry[];
+  identical: MoodEntry[];
+  conflicts: ImportConflict[];
+}
+
+const checkInKey = (checkIn: CheckIn): string => `${checkIn.time}|${checkIn.mood}|${cleanupTags(checkIn.diary).trim()}`;
+
+const hasSameDetails = (a: MoodEntry, b: MoodEntry): boolean =>
+  [...(a.activities ?? [])].sort().join('\n') === [...(b.activities ?? [])].sort().join('\n') &&
+  METRIC_KEYS.every((key) => a.metrics?.[key] === b.metrics?.[key]) &&
+  Object.keys({ ...a.trackers, ...b.trackers }).every((id) => a.trackers?.[id] === b.trackers?.[id]);
+
+// Loose enough for imports and sync, where the same day may have been written with different whitespace or tags
+export const isSameEntry = (a: MoodEntry, b: MoodEntry): boolean =>
+  a.mood === b.mood &&
+  cleanupTags(a.diary || '').trim() === cleanupTags(b.diary || '').trim() &&
+  (a.checkIns ?? []).map(checkInKey).join('\n') === (b.checkIns ?? []).map(checkInKey).join('\n') &&
+  hasSameDetails(a, b);
+
+// Exact, for deciding whether a save changed anything at all; updatedAt is not content
+export const isSameEntryContent = (a: MoodEntry, b: MoodEntry): boolean =>
+  a.date === b.date &&
+  a.mood === b.mood &&
+  (a.diary || '') === (b.diary || '') &&
+  JSON.stringify(a.checkIns ?? []) === JSON.stringify(b.checkIns ?? []) &&
+  hasSameDetails(a, b);
+
+export const planImport = (existing: MoodEntry[], incoming: MoodEntry[]): ImportPlan => {
+  const existingByDate = new Map(existing.map((entry) => [entry.date, entry]));
+  const plan: ImportPlan = { added: [], identical: [], conflicts: [] };
+
+  sortEntriesByDate(incoming).forEach((entry) => {
+    const current = existingByDate.get(entry.date);
+    if (!current) {
+      plan.added.push(entry);
+    } else if (isSameEntry(current, entry)) {
+      plan.identical.push(entry);
+    } else {
+      plan.conflicts.push({ date: entry.date, current, incoming: entry });
+    }
+  });
+
+  return plan;
+};
+
+export const mergeDiaries = (mine: string, theirs: string): string => {
+  const a = mine.trim();
+  const b = theirs.trim();
+  if (!a || b.includes(a)) return b;
+  if (!b || a.includes(b)) return a;
+  return `${a}\n\n${b}`;
+};
+
+// Keeps every check-in from both sides once
+const mergeCheckIns = (mine: CheckIn[], theirs: CheckIn[]): Pick<MoodEntry, 'checkIns'> => {
+  const byKey = new Map([...mine, ...theirs].map((checkIn) => [checkInKey(checkIn), checkIn]));
+  return byKey.size > 0 ? { checkIns: sortCheckIns(Array.from(byKey.values())) } : {};
+};
+
+const mergeActivities = (mine: string[], theirs: string[]): Pick<MoodEntry, 'activities'> => {
+  const ids = Array.from(new Set([...mine, ...theirs]));
+  return ids.length > 0 ? { activities: ids } : {};
+};
+
+export const resolveConflict = (conflict: ImportConflict, resolution: ImportResolution): MoodEntry => {
+  if (resolution === 'mine') return conflict.current;
+  if (resolution === 'theirs') return conflict.incoming;
+  return {
+    ...conflict.current,
+    mood: conflict.current.mood !== NO_MOOD ? conflict.current.mood : conflict.incoming.mood,
+    diary: mergeDiaries(conflict.current.diary, conflict.incoming.diary),
+    ...mergeCheckIns(conflict.current.checkIns ?? [], conflict.incoming.checkIns ?? []),
+    ...mergeActivities(conflict.current.activities ?? [], conflict.incoming.activities ?? []),
+    ...(conflict.current.metrics || conflict.incoming.metrics
+      ? { metrics: { ...conflict.incoming.metrics, ...conflict.current.metrics } }
+      : {}),
+    ...(conflict.current.trackers || conflict.incoming.trackers
+      ? { trackers: { ...conflict.incoming.trackers, ...conflict.current.trackers } }
+      : {}),
+  };
+};
+
+export const applyImportPlan = (
+  existing: MoodEntry[],
+  plan: ImportPlan,
+  resolutions: Record<string, ImportResolution>
+): MoodEntry[] => {
+  const result = new Map(existing.map((entry) => [entry.date, entry]));
+  plan.added.forEach((entry) => result.set(entry.date, entry));
+  plan.conflicts.forEach((conflict) => {
+    result.set(conflict.date, resolveConflict(conflict, resolutions[conflict.date] ?? 'mine'));
+  });
+  return Array.from(result.values());
+};
+
+// Word Diff
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Longer texts than this are shown as replaced wholesale; the table below grows with the product of the lengths
+const MAX_DIFF_CELLS = 4000000;
+
+// Word-level diff from `before` to `after` (longest common subsequence). Whitespace is kept with the words
+// so the parts join back into the original texts.
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.match(/\s*\S+\s*|\s+/g) ?? [];
+  const b = after.match(/\s*\S+\s*|\s+/g) ?? [];
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : []),
+    ];
+  }
+
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i].trim() === b[j].trim()
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  a.slice(i).forEach((word) => push('removed', word));
+  b.slice(j).forEach((word) => push('added', word));
+  return parts;
+};
+
+export const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const getExportFileName = (extension: string): string =>
+  `moodjournal-${formatDate(new Date())}.${extension}`;
+
 export const compressImage = (file: File, maxWidth: number = 1920, maxHeight: number = 1080, quality: number = 0.85): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -391,7 +1390,8 @@ export const compressImage = (file: File, maxWidth: number = 1920, maxHeight: nu
   });
 };
 
-export const processLineBreaks = (diary: string): React.ReactNode => {
+// Hashtags and mentions become chips; with `onMentionClick` they are buttons that search for themselves
+export const processLineBreaks = (diary: string, onMentionClick?: (mention: string) => void): React.ReactNode => {
   if (!diary) return null;
 
   const parts = diary.split(/(\n+)/);
@@ -414,11 +1414,47 @@ export const processLineBreaks = (diary: string): React.ReactNode => {
       return <React.Fragment key={index}>{result}</React.Fragment>;
     }
 
-    return <React.Fragment key={index}>{renderFormattedText(part)}</React.Fragment>;
+    return <React.Fragment key={index}>{renderFormattedText(part, onMentionClick)}</React.Fragment>;
   });
 };
 
-const renderFormattedText = (text: string): React.ReactNode => {
+const renderMentions = (text: string, onMentionClick?: (mention: string) => void): React.ReactNode => {
+  const parts: React.ReactNode[] = [];
+  let currentIndex = 0;
+
+  for (const match of text.matchAll(MENTION_REGEX)) {
+    const start = (match.index ?? 0) + match[1].length;
+    const mention = match[2];
+    if (start > currentIndex) parts.push(text.substring(currentIndex, start));
+    parts.push(
+      onMentionClick ? (
+        <button
+          key={start}
+          type="button"
+          className="mention-chip mention-chip-button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onMentionClick(mention);
+          }}
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          {mention}
+        </button>
+      ) : (
+        <span key={start} className="mention-chip">
+          {mention}
+        </span>
+      )
+    );
+    currentIndex = start + mention.length;
+  }
+
+  if (parts.length === 0) return text;
+  if (currentIndex < text.length) parts.push(text.substring(currentIndex));
+  return parts;
+};
+
+const renderFormattedText = (text: string, onMentionClick?: (mention: string) => void): React.ReactNode => {
   const segments: React.ReactNode[] = [];
   let currentIndex = 0;
   const tagRegex = /<(\/?)([biu])>/g;
@@ -448,7 +1484,7 @@ const renderFormattedText = (text: string): React.ReactNode => {
             textDecoration: activeStyles.underline ? 'underline' : 'none',
           }}
         >
-          {beforeTag}
+          {renderMentions(beforeTag, onMentionClick)}
         </span>
       );
     }
@@ -480,7 +1516,7 @@ const renderFormattedText = (text: string): React.ReactNode => {
           textDecoration: activeStyles.underline ? 'underline' : 'none',
         }}
       >
-        {remainingText}
+        {renderMentions(remainingText, onMentionClick)}
       </span>
     );
   }
@@ -0,0 +1,171 @@
+// Syncs the journal file (the backup format from folder sync) with a WebDAV server such as Nextcloud.
+// ETags make every write conditional, so a copy written by another device in the meantime is never overwritten.
+import { MoodEntry, Settings } from './types';
+import { ImportConflict, isSameEntry, getBackupChecksum } from './utils';
+import { bytesToBase64 } from './crypto';
+import { readMeta, writeMeta, deleteMeta } from './storage';
+import { JOURNAL_FILE_NAME, readJournalFile, createJournalFile } from './folderSync';
+
+const WEBDAV_KEY = 'webdav';
+
+export interface WebDavState {
+  url: string; // of the journal file itself
+  username: string;
+  password: string;
+  etag: string | null; // of the file as we last wrote or read it
+  checksum: string | null; // see getBackupChecksum
+  synced: Record<string, number>; // updatedAt of every date in that file, to tell local from remote changes
+  lastSyncedAt: number;
+}
+
+export interface RemoteJournal {
+  etag: string | null; // null when the file does not exist yet
+  entries: MoodEntry[];
+  checksum: string | null;
+}
+
+// Remote changes that can be applied as they are, and the dates that were edited on both sides
+export interface WebDavChanges {
+  remote: RemoteJournal;
+  incoming: MoodEntry[];
+  removed: string[];
+  conflicts: ImportConflict[];
+}
+
+const toFileUrl = (url: string): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error('Enter the full WebDAV address of a folder or .json file.');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('The WebDAV address must start with http:// or https://.');
+  }
+  const href = parsed.href;
+  return href.toLowerCase().endsWith('.json') ? href : `${href.replace(/\/+$/, '')}/${JOURNAL_FILE_NAME}`;
+};
+
+const request = async (state: WebDavState, init: RequestInit): Promise<Response> => {
+  const credentials = bytesToBase64(new TextEncoder().encode(`${state.username}:${state.password}`));
+  let response: Response;
+  try {
+    response = await fetch(state.url, {
+      ...init,
+      cache: 'no-store',
+      headers: { ...init.headers, ...(state.username ? { Authorization: `Basic ${credentials}` } : {}) },
+    });
+  } catch {
+    throw new Error('Could not reach the WebDAV server. It may be offline or not allow requests from this app.');
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    throw new Error('The WebDAV server rejected the username or password.');
+  }
+  return response;
+};
+
+export const loadWebDav = (): Promise<WebDavState | undefined> => readMeta<WebDavState>(WEBDAV_KEY);
+
+export const connectWebDav = async (url: string, username: string, password: string): Promise<WebDavState> => {
+  const state: WebDavState = {
+    url: toFileUrl(url),
+    username: username.trim(),
+    password,
+    etag: null,
+    checksum: null,
+    synced: {},
+    lastSyncedAt: 0,
+  };
+  await fetchRemoteJournal(state);
+  await writeMeta(WEBDAV_KEY, state);
+  return state;
+};
+
+export const disconnectWebDav = (): Promise<void> => deleteMeta(WEBDAV_KEY);
+
+export const fetchRemoteJournal = async (state: WebDavState): Promise<RemoteJournal> => {
+  const response = await request(state, { method: 'GET' });
+  if (response.status === 404) return { etag: null, entries: [], checksum: null };
+  if (!response.ok) throw new Error(`The WebDAV server answered with an error (${response.status}).`);
+
+  const { entries, checksum } = await readJournalFile(await response.text());
+  return { etag: response.headers.get('ETag'), entries, checksum };
+};
+
+// Per date: a side "changed" when it differs from the last synced file. Changes on one side are taken over;
+// edits on both sides are conflicts. An edit wins over a deletion on the other side.
+export const compareWithRemote = (state: WebDavState, entries: MoodEntry[], remote: RemoteJournal): WebDavChanges => {
+  const localByDate = new Map(entries.map((entry) => [entry.date, entry]));
+  const remoteByDate = new Map(remote.entries.map((entry) => [entry.date, entry]));
+  const dates = new Set([...localByDate.keys(), ...remoteByDate.keys()]);
+  const changes: WebDavChanges = { remote, incoming: [], removed: [], conflicts: [] };
+
+  const hasChanged = (entry: MoodEntry | undefined, date: string, isRemote: boolean): boolean => {
+    if (!entry) return date in state.synced;
+    if (!(date in state.synced)) return true;
+    const updatedAt = entry.updatedAt ?? 0;
+    return isRemote ? updatedAt !== state.synced[date] : updatedAt > state.synced[date];
+  };
+
+  dates.forEach((date) => {
+    const local = localByDate.get(date);
+    const theirs = remoteByDate.get(date);
+    if (!hasChanged(theirs, date, true)) return;
+
+    if (!hasChanged(local, date, false) || !local) {
+      if (theirs) changes.incoming.push(theirs);
+      else if (local) changes.removed.push(date);
+    } else if (theirs && !isSameEntry(local, theirs)) {
+      changes.conflicts.push({ date, current: local, incoming: theirs });
+    }
+  });
+
+  return changes;
+};
+
+export const mergeRemoteChanges = (entries: MoodEntry[], incoming: MoodEntry[], removed: string[]): MoodEntry[] => {
+  const byDate = new Map(entries.map((entry) => [entry.date, entry]));
+  removed.forEach((date) => byDate.delete(date));
+  incoming.forEach((entry) => byDate.set(entry.date, entry));
+  return Array.from(byDate.values());
+};
+
+// Marks the remote file as seen, so the next push builds on it
+export const acceptRemoteJournal = (state: WebDavState, remote: RemoteJournal): WebDavState => ({
+  ...state,
+  etag: remote.etag,
+  checksum: remote.checksum,
+  synced: Object.fromEntries(remote.entries.map((entry) => [entry.date, entry.updatedAt ?? 0])),
+});
+
+// Writes the journal unless the file already has the same content. Returns null when someone else changed
+// the file since `state.etag`; the caller should pull again.
+export const pushJournal = async (
+  state: WebDavState,
+  entries: MoodEntry[],
+  settings: Settings
+): Promise<WebDavState | null> => {
+  const checksum = await getBackupChecksum(entries, settings);
+  const synced = Object.fromEntries(entries.map((entry) => [entry.date, entry.updatedAt ?? 0]));
+
+  let etag = state.etag;
+  if (checksum !== state.checksum) {
+    const response = await request(state, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(state.etag ? { 'If-Match': state.etag } : { 'If-None-Match': '*' }),
+      },
+      body: await createJournalFile(entries, settings),
+    });
+    if (response.status === 412) return null;
+    if (!response.ok) throw new Error(`The WebDAV server answered with an error (${response.status}).`);
+
+    etag = response.headers.get('ETag') ?? (await request(state, { method: 'HEAD' })).headers.get('ETag');
+  }
+
+  const nextState = { ...state, etag, checksum, synced, lastSyncedAt: Date.now() };
+  await writeMeta(WEBDAV_KEY, nextState);
+  return nextState;
+};